@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { CacheService } from '../services/cache-service';
+import { PubApiService } from '../services/pub-api-service';
+
+/**
+ * Selective purge and on-demand refresh for the cache inspector view.
+ */
+export class CacheInspectorCommands {
+  constructor(
+    private cacheService: CacheService,
+    private pubApiService: PubApiService
+  ) {}
+
+  public purgeEntry(item?: any): void {
+    const key: string | undefined = item?.entry?.key;
+    if (!key) {
+      vscode.window.showWarningMessage('Select a cache entry to purge');
+      return;
+    }
+
+    this.cacheService.delete(key);
+  }
+
+  public async purgeKind(item?: any): Promise<void> {
+    const kind: string | undefined = item?.kind;
+    if (!kind) {
+      vscode.window.showWarningMessage('Select a cache group to purge');
+      return;
+    }
+
+    const label = typeof item.label === 'string' ? item.label : kind;
+    const choice = await vscode.window.showWarningMessage(
+      `Remove all cached ${label}?`,
+      { modal: true },
+      'Purge'
+    );
+    if (choice !== 'Purge') {
+      return;
+    }
+
+    const removed = this.cacheService.deleteKind(kind);
+    vscode.window.showInformationMessage(`Removed ${removed} cached ${label.toLowerCase()}`);
+  }
+
+  /**
+   * Removes entries fetched longer ago than a duration such as `30m`, `12h`
+   * or `7d`.
+   */
+  public async purgeOlderThan(): Promise<void> {
+    const input = await vscode.window.showInputBox({
+      prompt: 'Remove cache entries fetched longer ago than',
+      placeHolder: 'e.g. 30m, 12h, 7d',
+      value: '7d',
+      validateInput: value => this.parseDuration(value) === null ? 'Use a number followed by m, h or d' : null
+    });
+    if (!input) {
+      return;
+    }
+
+    const removed = this.cacheService.deleteOlderThan(this.parseDuration(input)!);
+    vscode.window.showInformationMessage(`Removed ${removed} cache entr${removed === 1 ? 'y' : 'ies'} older than ${input.trim()}`);
+  }
+
+  public async refreshEntry(item?: any): Promise<void> {
+    const key: string | undefined = item?.entry?.key;
+    if (!key) {
+      vscode.window.showWarningMessage('Select a cache entry to refresh');
+      return;
+    }
+
+    const refreshed = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: `Refreshing ${item.label}`
+    }, () => this.pubApiService.refreshCacheEntry(key));
+
+    if (!refreshed) {
+      vscode.window.showErrorMessage(`Failed to refresh ${item.label}, the cached copy was kept`);
+    }
+  }
+
+  private parseDuration(value: string): number | null {
+    const match = value.trim().match(/^(\d+)\s*([mhd])$/i);
+    if (!match) {
+      return null;
+    }
+
+    const units: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+    return Number(match[1]) * units[match[2].toLowerCase()];
+  }
+}
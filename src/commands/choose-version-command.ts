@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { WorkspaceService } from '../services/workspace-service';
+import { DependencyInfo } from '../types/pub-types';
+import { VersionPicker } from './version-picker';
+
+/**
+ * Sets a hosted dependency to a version picked from its full history
+ * instead of always the latest.
+ */
+export class ChooseVersionCommand {
+  constructor(
+    private workspaceService: WorkspaceService,
+    private versionPicker: VersionPicker
+  ) {}
+
+  public async execute(item?: any): Promise<void> {
+    const target = item ? this.getTarget(item) : await this.promptForTarget();
+    if (!target) {
+      if (item) {
+        vscode.window.showWarningMessage('Select a hosted dependency to choose its version');
+      }
+      return;
+    }
+
+    const { projectPath, dependency } = target;
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+    const version = await this.versionPicker.pick(dependency.name, {
+      hostedUrl: dependency.spec.url,
+      sdkConstraint: project?.sdkConstraint,
+      flutterVersion: project?.usesFlutter ? (await this.workspaceService.getSdkEnvironment(project)).flutterVersion : undefined,
+      currentVersion: dependency.currentVersion
+    });
+    if (!version) {
+      return;
+    }
+
+    const updated = await this.workspaceService.updateDependency(projectPath, dependency.name, version, dependency.isDev);
+    if (updated) {
+      vscode.window.showInformationMessage(`Set ${dependency.name} to ^${version}`);
+    }
+  }
+
+  private getTarget(item: any): { projectPath: string; dependency: DependencyInfo } | undefined {
+    const projectPath: string | undefined = item?.projectPath;
+    const name: string | undefined = item?.dependency?.name;
+    if (!projectPath || !name) {
+      return undefined;
+    }
+
+    // Prefer the project's current data over what the caller captured
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+    const dependency = project?.dependencies.find(d => d.name === name) || item.dependency;
+    return dependency?.spec?.source === 'hosted' ? { projectPath, dependency } : undefined;
+  }
+
+  private async promptForTarget(): Promise<{ projectPath: string; dependency: DependencyInfo } | undefined> {
+    const projects = this.workspaceService.getProjects();
+    if (projects.length === 0) {
+      vscode.window.showErrorMessage('No Flutter projects found in workspace');
+      return undefined;
+    }
+
+    const project = projects.length === 1
+      ? projects[0]
+      : (await vscode.window.showQuickPick(
+          projects.map(p => ({ label: `$(folder) ${p.name}`, description: p.path, project: p })),
+          { placeHolder: 'Select project' }
+        ))?.project;
+    if (!project) {
+      return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      project.dependencies
+        .filter(d => d.spec.source === 'hosted')
+        .map(d => ({
+          label: `$(package) ${d.name}`,
+          description: `${d.version}${d.isDev ? ' • dev' : ''}`,
+          dependency: d
+        })),
+      { placeHolder: 'Select dependency' }
+    );
+
+    return selected ? { projectPath: project.path, dependency: selected.dependency } : undefined;
+  }
+}
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { WorkspaceService } from '../services/workspace-service';
+import { PubApiService } from '../services/pub-api-service';
+import { DependencyInfo } from '../types/pub-types';
+import { isVersionOutdated } from '../utils/dart-semver';
+
+/**
+ * Actions that only make sense for one kind of dependency source: local
+ * path folders, git refs and packages from a custom package server.
+ */
+export class DependencySourceCommands {
+  constructor(
+    private workspaceService: WorkspaceService,
+    private pubApiService: PubApiService
+  ) {}
+
+  /**
+   * Reveals a path dependency in the explorer, or offers to open it in a new
+   * window when it lives outside the workspace.
+   */
+  public async openLocalFolder(item?: any): Promise<void> {
+    const target = this.getTarget(item);
+    if (!target || target.dependency.spec.source !== 'path' || !target.dependency.spec.path) {
+      vscode.window.showWarningMessage('Select a path dependency to open its folder');
+      return;
+    }
+
+    const folder = path.resolve(target.projectPath, target.dependency.spec.path);
+    if (!fs.existsSync(folder)) {
+      vscode.window.showErrorMessage(`Folder not found: ${folder}`);
+      return;
+    }
+
+    const uri = vscode.Uri.file(folder);
+    if (vscode.workspace.getWorkspaceFolder(uri)) {
+      await vscode.commands.executeCommand('revealInExplorer', uri);
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `${target.dependency.name} lives outside the workspace at ${folder}`,
+      'Open in New Window',
+      'Reveal in OS'
+    );
+    if (choice === 'Open in New Window') {
+      await vscode.commands.executeCommand('vscode.openFolder', uri, { forceNewWindow: true });
+    } else if (choice === 'Reveal in OS') {
+      await vscode.commands.executeCommand('revealFileInOS', uri);
+    }
+  }
+
+  /**
+   * Shows the declared git ref next to the commit pubspec.lock resolved it to.
+   */
+  public async showGitRef(item?: any): Promise<void> {
+    const target = this.getTarget(item);
+    if (!target || target.dependency.spec.source !== 'git') {
+      vscode.window.showWarningMessage('Select a git dependency to show its ref');
+      return;
+    }
+
+    const { dependency, projectPath } = target;
+    const spec = dependency.spec;
+    const locked = this.workspaceService.getLockfile(projectPath)?.packages[dependency.name];
+    const resolvedRef: string | undefined = locked?.description?.['resolved-ref'];
+
+    const parts = [`${dependency.name}: ${spec.url || 'unknown repository'}`];
+    parts.push(`ref ${spec.ref || 'default branch'}`);
+    if (spec.path) {
+      parts.push(`path ${spec.path}`);
+    }
+    parts.push(resolvedRef ? `resolved to ${resolvedRef.substring(0, 12)}` : 'not resolved yet');
+
+    const actions = [resolvedRef ? 'Copy Commit' : undefined, this.getBrowsableUrl(spec.url) ? 'Open Repository' : undefined]
+      .filter((action): action is string => Boolean(action));
+    const choice = await vscode.window.showInformationMessage(parts.join(' • '), ...actions);
+
+    if (choice === 'Copy Commit' && resolvedRef) {
+      await vscode.env.clipboard.writeText(resolvedRef);
+    } else if (choice === 'Open Repository') {
+      vscode.env.openExternal(vscode.Uri.parse(this.getBrowsableUrl(spec.url)!));
+    }
+  }
+
+  /**
+   * Looks up the latest version on the package server the dependency is
+   * hosted on, and offers to update to it.
+   */
+  public async checkHostedUpdates(item?: any): Promise<void> {
+    const target = this.getTarget(item);
+    if (!target || target.dependency.spec.source !== 'hosted') {
+      vscode.window.showWarningMessage('Select a hosted dependency to check for updates');
+      return;
+    }
+
+    const { dependency, projectPath } = target;
+    const host = dependency.spec.url || 'pub.dev';
+    const latestVersion = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: `Checking ${dependency.name} on ${host}...`
+    }, () => this.pubApiService.getLatestVersion(dependency.name, dependency.spec.url));
+
+    if (!latestVersion) {
+      vscode.window.showErrorMessage(`Could not find ${dependency.name} on ${host}`);
+      return;
+    }
+
+    if (!isVersionOutdated(dependency.version, latestVersion)) {
+      vscode.window.showInformationMessage(`${dependency.name} ${dependency.version} is up to date on ${host} (latest ${latestVersion})`);
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `${dependency.name} ${latestVersion} is available on ${host}`,
+      'Update'
+    );
+    if (choice === 'Update') {
+      await this.workspaceService.updateDependency(projectPath, dependency.name, latestVersion, dependency.isDev);
+    }
+  }
+
+  private getTarget(item?: any): { projectPath: string; dependency: DependencyInfo } | undefined {
+    const projectPath: string | undefined = item?.projectPath;
+    const name: string | undefined = item?.dependency?.name;
+    if (!projectPath || !name) {
+      return undefined;
+    }
+
+    // Prefer the project's current data over what the tree item captured
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+    const dependency = project?.dependencies.find(d => d.name === name) || item.dependency;
+    return dependency?.spec ? { projectPath, dependency } : undefined;
+  }
+
+  private getBrowsableUrl(url?: string): string | undefined {
+    if (!url) {
+      return undefined;
+    }
+    // git@github.com:org/repo.git -> https://github.com/org/repo
+    const scp = url.match(/^[\w.-]+@([\w.-]+):(.+?)(\.git)?$/);
+    if (scp) {
+      return `https://${scp[1]}/${scp[2]}`;
+    }
+    return /^https?:\/\//.test(url) ? url.replace(/\.git$/, '') : undefined;
+  }
+}
@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { WorkspaceService } from '../services/workspace-service';
+import { PubApiService } from '../services/pub-api-service';
+import { DependencyInfo, WorkspaceProject } from '../types/pub-types';
+
+interface PackageImport {
+  uri: vscode.Uri;
+  line: number;
+  text: string;
+}
+
+/**
+ * Migration help for discontinued packages: swap in the replacement the
+ * publisher suggests and find the Dart files that still import the old one.
+ */
+export class DiscontinuedPackageCommands {
+  constructor(
+    private workspaceService: WorkspaceService,
+    private pubApiService: PubApiService
+  ) {}
+
+  /**
+   * Removes the discontinued package, adds its replacement from the same
+   * package server with a caret constraint on the newest version the
+   * project's SDK supports and runs pub get, then lists the files that need
+   * their imports migrated.
+   */
+  public async replaceWithSuggested(item?: any): Promise<void> {
+    const target = this.getTarget(item);
+    if (!target) {
+      vscode.window.showWarningMessage('Select a discontinued dependency to replace');
+      return;
+    }
+
+    const { projectPath, dependency } = target;
+    const hostedUrl = dependency.spec.url;
+    const replacement = dependency.replacedBy ?? (await this.pubApiService.getPackageDetails(dependency.name, hostedUrl))?.replacedBy;
+    if (!replacement) {
+      vscode.window.showInformationMessage(`${dependency.name} is discontinued but names no replacement`);
+      return;
+    }
+
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+    const alreadyDeclared = project?.dependencies.some(d => d.name === replacement);
+    const version = alreadyDeclared || !project
+      ? undefined
+      : await this.getReplacementVersion(project, replacement, dependency.name, hostedUrl);
+    if (!alreadyDeclared && !version) {
+      vscode.window.showErrorMessage(`Could not find ${replacement} on ${hostedUrl ?? 'pub.dev'}`);
+      return;
+    }
+
+    const replaced = await this.workspaceService.applyDependencyChanges(projectPath, [
+      { packageName: dependency.name, isDev: dependency.isDev, remove: true },
+      ...(version ? [{ packageName: replacement, version, isDev: dependency.isDev, hostedUrl }] : [])
+    ]);
+    if (!replaced) {
+      return;
+    }
+
+    const imports = await this.findPackageImports(projectPath, dependency.name);
+    if (imports.length === 0) {
+      vscode.window.showInformationMessage(`Replaced ${dependency.name} with ${replacement}`);
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `Replaced ${dependency.name} with ${replacement}. ${imports.length} import${imports.length === 1 ? '' : 's'} of ${dependency.name} still need migrating.`,
+      'Show Imports'
+    );
+    if (choice === 'Show Imports') {
+      await this.showImports(dependency.name, imports);
+    }
+  }
+
+  /**
+   * Lists the Dart files of a project that import or export a package.
+   */
+  public async findImports(item?: any): Promise<void> {
+    const target = this.getTarget(item);
+    if (!target) {
+      vscode.window.showWarningMessage('Select a dependency to find its imports');
+      return;
+    }
+
+    const imports = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: `Finding imports of ${target.dependency.name}`
+    }, () => this.findPackageImports(target.projectPath, target.dependency.name));
+
+    if (imports.length === 0) {
+      vscode.window.showInformationMessage(`No Dart files import package:${target.dependency.name}`);
+      return;
+    }
+
+    await this.showImports(target.dependency.name, imports);
+  }
+
+  /**
+   * The newest version of the replacement that fits the project's SDK and
+   * its other dependencies, or the latest when none does.
+   */
+  private async getReplacementVersion(
+    project: WorkspaceProject,
+    replacement: string,
+    replacedName: string,
+    hostedUrl?: string
+  ): Promise<string | undefined> {
+    const dependencyConstraints: Record<string, string> = {};
+    for (const dep of project.dependencies) {
+      if (dep.name !== replacedName && dep.spec.source === 'hosted' && dep.spec.constraint) {
+        dependencyConstraints[dep.name] = dep.spec.constraint;
+      }
+    }
+
+    const columns = await this.pubApiService.getVersionColumns(replacement, 'any', {
+      ...(await this.workspaceService.getSdkEnvironment(project)),
+      dependencyConstraints,
+      hostedUrl
+    });
+    return columns.resolvable ?? columns.latest;
+  }
+
+  private async findPackageImports(projectPath: string, packageName: string): Promise<PackageImport[]> {
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(projectPath, '**/*.dart'),
+      '**/{.dart_tool,build}/**'
+    );
+
+    const directive = new RegExp(`^\\s*(import|export)\\s+['"]package:${packageName}/`);
+    const imports: PackageImport[] = [];
+    for (const uri of files) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(uri.fsPath, 'utf8');
+      } catch {
+        continue;
+      }
+
+      content.split(/\r?\n/).forEach((text, line) => {
+        if (directive.test(text)) {
+          imports.push({ uri, line, text: text.trim() });
+        }
+      });
+    }
+
+    return imports.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath) || a.line - b.line);
+  }
+
+  private async showImports(packageName: string, imports: PackageImport[]): Promise<void> {
+    const selected = await vscode.window.showQuickPick(
+      imports.map(entry => ({
+        label: `$(file-code) ${vscode.workspace.asRelativePath(entry.uri)}:${entry.line + 1}`,
+        description: entry.text,
+        entry
+      })),
+      {
+        placeHolder: `${imports.length} import${imports.length === 1 ? '' : 's'} of package:${packageName}`,
+        matchOnDescription: true
+      }
+    );
+    if (!selected) {
+      return;
+    }
+
+    const position = new vscode.Position(selected.entry.line, 0);
+    await vscode.window.showTextDocument(selected.entry.uri, { selection: new vscode.Range(position, position) });
+  }
+
+  private getTarget(item?: any): { projectPath: string; dependency: DependencyInfo } | undefined {
+    const projectPath: string | undefined = item?.projectPath;
+    const name: string | undefined = item?.dependency?.name;
+    if (!projectPath || !name) {
+      return undefined;
+    }
+
+    // Prefer the project's current data over what the caller captured
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+    const dependency = project?.dependencies.find(d => d.name === name) || item.dependency;
+    return dependency?.spec ? { projectPath, dependency } : undefined;
+  }
+}
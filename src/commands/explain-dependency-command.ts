@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import { WorkspaceService } from '../services/workspace-service';
+import { DependencyGraphService } from '../services/dependency-graph-service';
+import { DependencyPathStep, WorkspaceProject } from '../types/pub-types';
+
+export class ExplainDependencyCommand {
+  constructor(
+    private workspaceService: WorkspaceService,
+    private dependencyGraphService: DependencyGraphService
+  ) {}
+
+  /**
+   * Accepts a tree item from the dependencies view, or asks for the project
+   * and package when run from the command palette.
+   */
+  public async execute(item?: any): Promise<void> {
+    let projectPath: string | undefined = item?.projectPath;
+    let packageName: string | undefined = item?.dependency?.name || item?.node?.name;
+
+    const project = projectPath
+      ? this.workspaceService.getProjects().find(p => p.path === projectPath)
+      : await this.pickProject();
+    if (!project) {
+      return;
+    }
+    projectPath = project.path;
+
+    if (!project.lock) {
+      vscode.window.showWarningMessage(`No pubspec.lock found for ${project.name}. Run pub get first.`);
+      return;
+    }
+
+    if (!packageName) {
+      packageName = await this.pickPackage(project);
+      if (!packageName) {
+        return;
+      }
+    }
+
+    const directDependencies = project.dependencies.reduce((acc, dep) => {
+      acc[dep.name] = dep.version;
+      return acc;
+    }, {} as Record<string, string>);
+
+    const paths = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: `Tracing ${packageName}...`
+    }, () => this.dependencyGraphService.findPaths(projectPath!, packageName!, directDependencies));
+
+    const document = await vscode.workspace.openTextDocument({
+      content: this.renderExplanation(project, packageName, paths),
+      language: 'markdown'
+    });
+    vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  private async pickProject(): Promise<WorkspaceProject | undefined> {
+    const projects = this.workspaceService.getProjects();
+    if (projects.length <= 1) {
+      return projects[0];
+    }
+
+    const selected = await vscode.window.showQuickPick(projects.map(project => ({
+      label: `$(folder) ${project.name}`,
+      description: project.path,
+      project
+    })), {
+      placeHolder: 'Select project'
+    });
+    return selected?.project;
+  }
+
+  private async pickPackage(project: WorkspaceProject): Promise<string | undefined> {
+    const packages = Object.values(project.lock!.packages)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(locked => ({
+        label: locked.name,
+        description: `${locked.version} • ${locked.dependency}`
+      }));
+
+    const selected = await vscode.window.showQuickPick(packages, {
+      placeHolder: 'Which package do you want explained?',
+      matchOnDescription: true
+    });
+    return selected?.label;
+  }
+
+  private renderExplanation(project: WorkspaceProject, packageName: string, paths: DependencyPathStep[][]): string {
+    const locked = project.lock?.packages[packageName];
+    const lines: string[] = [`# Why is \`${packageName}\` in ${project.name}?`, ''];
+
+    if (!locked) {
+      lines.push(`\`${packageName}\` is not in pubspec.lock.`);
+      return lines.join('\n');
+    }
+
+    lines.push(`Locked at \`${locked.version}\` from ${locked.source} (${locked.dependency}).`, '');
+
+    if (paths.length === 0) {
+      lines.push('No dependency path found. The package pubspecs may not be available offline yet.');
+      return lines.join('\n');
+    }
+
+    lines.push(`Required through ${paths.length} path${paths.length > 1 ? 's' : ''}:`, '');
+    paths.forEach((steps, index) => {
+      const chain = steps
+        .map(step => `**${step.name}** \`${step.constraint || 'any'}\`${step.version ? ` (${step.version})` : ''}`)
+        .join(' → ');
+      lines.push(`${index + 1}. ${project.name} → ${chain}`);
+    });
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { RepositoryService } from '../services/repository-service';
+
+/**
+ * Stores bearer tokens for private package servers in VS Code SecretStorage,
+ * as an alternative to `dart pub token add`.
+ */
+export class RepositoryTokenCommand {
+  constructor(private repositoryService: RepositoryService) {}
+
+  public async add(): Promise<void> {
+    const url = await this.pickRepository('Select the package server to add a token for');
+    if (!url) {
+      return;
+    }
+
+    const token = await vscode.window.showInputBox({
+      prompt: `Bearer token for ${url}`,
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: value => value.trim() ? null : 'Token cannot be empty'
+    });
+    if (!token) {
+      return;
+    }
+
+    await this.repositoryService.setToken(url, token.trim());
+    vscode.window.showInformationMessage(`Token saved for ${url}`);
+  }
+
+  public async remove(): Promise<void> {
+    const url = await this.pickRepository('Select the package server to remove the token for');
+    if (!url) {
+      return;
+    }
+
+    await this.repositoryService.deleteToken(url);
+    vscode.window.showInformationMessage(`Token removed for ${url}`);
+  }
+
+  private async pickRepository(placeHolder: string): Promise<string | undefined> {
+    const items = this.repositoryService.getRepositories().map(repository => ({
+      label: `$(server) ${repository.name || repository.url}`,
+      description: repository.name ? repository.url : undefined,
+      url: repository.url
+    }));
+    items.push({ label: '$(add) Other server...', description: undefined, url: '' });
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder, ignoreFocusOut: true });
+    if (!selected) {
+      return undefined;
+    }
+    if (selected.url) {
+      return selected.url;
+    }
+
+    const url = await vscode.window.showInputBox({
+      prompt: 'Package server url',
+      placeHolder: 'https://pub.example.com',
+      ignoreFocusOut: true,
+      validateInput: value => /^https?:\/\/\S+$/.test(value.trim()) ? null : 'Enter an http(s) url'
+    });
+    return url ? this.repositoryService.normalizeUrl(url) : undefined;
+  }
+}
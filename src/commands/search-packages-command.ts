@@ -2,11 +2,14 @@ import * as vscode from 'vscode';
 import { PubApiService } from '../services/pub-api-service';
 import { WorkspaceService } from '../services/workspace-service';
 import { PubPackage } from '../types/pub-types';
+import { VersionConstraint } from '../utils/dart-semver';
+import { VersionPicker } from './version-picker';
 
 export class SearchPackagesCommand {
   constructor(
     private pubApiService: PubApiService,
-    private workspaceService: WorkspaceService
+    private workspaceService: WorkspaceService,
+    private versionPicker: VersionPicker
   ) {}
 
   public async execute(): Promise<void> {
@@ -33,7 +36,7 @@ export class SearchPackagesCommand {
       try {
         progress.report({ increment: 20, message: 'Fetching results from pub.dev' });
         
-        const packages = await this.pubApiService.searchPackages(query.trim());
+        const packages = await this.pubApiService.searchPackages(query.trim(), 1, token);
         
         if (token.isCancellationRequested) {
           return;
@@ -49,6 +52,9 @@ export class SearchPackagesCommand {
         await this.showPackageQuickPick(packages);
         
       } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+          return;
+        }
         console.error('Error searching packages:', error);
         vscode.window.showErrorMessage(`Failed to search packages: ${error}`);
       }
@@ -58,7 +64,7 @@ export class SearchPackagesCommand {
   private async showPackageQuickPick(packages: PubPackage[]): Promise<void> {
     const items: PackageQuickPickItem[] = packages.map(pkg => ({
       label: `$(package) ${pkg.name}`,
-      description: `v${pkg.version}`,
+      description: pkg.hostedUrl ? `v${pkg.version} • ${pkg.hostedUrl}` : `v${pkg.version}`,
       detail: this.createPackageDetail(pkg),
       package: pkg
     }));
@@ -167,6 +173,11 @@ export class SearchPackagesCommand {
         description: 'Exact version only',
         version: pkg.version
       },
+      {
+        label: '$(versions) Choose from Version History',
+        description: 'Publish dates and SDK compatibility',
+        version: 'history'
+      },
       {
         label: '$(edit) Custom Version',
         description: 'Enter custom version constraint',
@@ -185,7 +196,19 @@ export class SearchPackagesCommand {
 
     let version = selectedVersion.version;
     
-    if (version === 'custom') {
+    if (version === 'history') {
+      const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+      const picked = await this.versionPicker.pick(pkg.name, {
+        hostedUrl: pkg.hostedUrl,
+        sdkConstraint: project?.sdkConstraint,
+        flutterVersion: project?.usesFlutter ? (await this.workspaceService.getSdkEnvironment(project)).flutterVersion : undefined
+      });
+      if (!picked) {
+        return;
+      }
+
+      version = `^${picked}`;
+    } else if (version === 'custom') {
       const customVersion = await vscode.window.showInputBox({
         prompt: 'Enter version constraint',
         placeHolder: 'e.g., ^1.0.0, >=1.0.0 <2.0.0',
@@ -194,6 +217,9 @@ export class SearchPackagesCommand {
           if (!value || value.trim().length === 0) {
             return 'Version constraint cannot be empty';
           }
+          if (!VersionConstraint.parse(value)) {
+            return 'Invalid version constraint';
+          }
           return null;
         }
       });
@@ -210,12 +236,13 @@ export class SearchPackagesCommand {
       projectPath,
       pkg.name,
       version,
-      dependencyType.isDev
+      dependencyType.isDev,
+      pkg.hostedUrl
     );
 
     if (success) {
       // Show package info with links
-      const actions = ['View on pub.dev'];
+      const actions = pkg.hostedUrl ? [] : ['View on pub.dev'];
       if (pkg.repository) {
         actions.push('View Repository');
       }
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { PubApiService } from '../services/pub-api-service';
+import { PackageVersionInfo } from '../types/pub-types';
+
+export interface VersionPickerOptions {
+  /** Custom package server, unset for the default one */
+  hostedUrl?: string;
+  /** The project's `environment.sdk`, used to mark compatible versions */
+  sdkConstraint?: string;
+  /** Detected Flutter version, for Flutter projects only */
+  flutterVersion?: string;
+  /** Version locked in pubspec.lock, marked in the list */
+  currentVersion?: string;
+}
+
+/**
+ * Quick pick over a package's full version history with publish dates,
+ * retracted flags and whether each version fits the project's SDK.
+ */
+export class VersionPicker {
+  constructor(private pubApiService: PubApiService) {}
+
+  /**
+   * Resolves to the chosen version, or undefined when the picker was
+   * dismissed or the package has no versions.
+   */
+  public async pick(packageName: string, options: VersionPickerOptions = {}): Promise<string | undefined> {
+    const versions = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: `Loading versions of ${packageName}`
+    }, () => this.pubApiService.getVersionHistory(packageName, options.hostedUrl, options));
+
+    if (versions.length === 0) {
+      vscode.window.showWarningMessage(`No published versions found for ${packageName}`);
+      return undefined;
+    }
+
+    const latestStable = versions.find(v => !v.isPreRelease && !v.retracted)?.version;
+    const items = versions.map(info => ({
+      label: `${this.getIcon(info)} ${info.version}`,
+      description: this.getDescription(info, latestStable, options.currentVersion),
+      detail: this.getDetail(info, options.flutterVersion),
+      version: info.version
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: options.sdkConstraint
+        ? `Select a version of ${packageName} (project SDK ${options.sdkConstraint})`
+        : `Select a version of ${packageName}`,
+      matchOnDescription: true,
+      ignoreFocusOut: true
+    });
+    if (!selected) {
+      return undefined;
+    }
+
+    const info = versions.find(v => v.version === selected.version)!;
+    if (info.retracted || info.isSdkCompatible === false) {
+      const reason = info.retracted
+        ? `${packageName} ${info.version} was retracted by its publisher`
+        : info.needsOtherFlutter
+          ? `${packageName} ${info.version} requires Flutter ${info.flutterConstraint}, the project uses ${options.flutterVersion}`
+          : `${packageName} ${info.version} requires SDK ${info.sdkConstraint}, the project allows ${options.sdkConstraint}`;
+      const choice = await vscode.window.showWarningMessage(`${reason}. Use it anyway?`, 'Use Anyway', 'Cancel');
+      if (choice !== 'Use Anyway') {
+        return undefined;
+      }
+    }
+
+    return selected.version;
+  }
+
+  private getIcon(info: PackageVersionInfo): string {
+    if (info.retracted) {
+      return '$(circle-slash)';
+    }
+    if (info.isSdkCompatible === false) {
+      return '$(warning)';
+    }
+    return info.isPreRelease ? '$(beaker)' : '$(tag)';
+  }
+
+  private getDescription(info: PackageVersionInfo, latestStable?: string, currentVersion?: string): string {
+    const parts: string[] = [];
+    if (info.version === latestStable) {
+      parts.push('latest');
+    }
+    if (info.version === currentVersion) {
+      parts.push('current');
+    }
+    if (info.retracted) {
+      parts.push('retracted');
+    } else if (info.isPreRelease) {
+      parts.push('pre-release');
+    }
+    if (info.published) {
+      parts.push(info.published.toLocaleDateString());
+    }
+    return parts.join(' • ');
+  }
+
+  private getDetail(info: PackageVersionInfo, flutterVersion?: string): string {
+    const requirements = [
+      info.sdkConstraint ? `SDK ${info.sdkConstraint}` : undefined,
+      info.flutterConstraint ? `Flutter ${info.flutterConstraint}` : undefined
+    ].filter(Boolean).join(', ');
+
+    if (info.isSdkCompatible === true) {
+      return `$(check) Compatible with the project's SDK${requirements ? ` • requires ${requirements}` : ''}`;
+    }
+    if (info.isSdkCompatible === false) {
+      return info.needsOtherFlutter
+        ? `$(close) Requires ${requirements}, the project uses Flutter ${flutterVersion}`
+        : `$(close) Requires ${requirements}, outside the project's SDK constraint`;
+    }
+    return requirements ? `Requires ${requirements}` : 'No SDK requirement published';
+  }
+}
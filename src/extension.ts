@@ -1,27 +1,53 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { CacheService } from './services/cache-service';
+import { SdkService } from './services/sdk-service';
 import { PubApiService } from './services/pub-api-service';
+import { RepositoryService } from './services/repository-service';
 import { WorkspaceService } from './services/workspace-service';
+import { LockfileService } from './services/lockfile-service';
+import { PubCacheService } from './services/pub-cache-service';
+import { DependencyGraphService } from './services/dependency-graph-service';
 import { DependencyResolver } from './services/dependency-resolver';
 import { VisualSearchService } from './services/visual-search-service';
 import { DependencyTreeProvider } from './providers/dependency-tree-provider';
+import { CacheTreeProvider } from './providers/cache-tree-provider';
 import { PubspecAnalyzer } from './providers/pubspec-analyzer';
 import { PubspecHoverProvider } from './providers/pubspec-hover-provider';
 import { PubspecCodeActionProvider } from './providers/pubspec-code-action-provider';
 import { SearchPackagesCommand } from './commands/search-packages-command';
+import { ExplainDependencyCommand } from './commands/explain-dependency-command';
+import { DependencySourceCommands } from './commands/dependency-source-commands';
+import { RepositoryTokenCommand } from './commands/repository-token-command';
+import { CacheInspectorCommands } from './commands/cache-inspector-commands';
+import { VersionPicker } from './commands/version-picker';
+import { ChooseVersionCommand } from './commands/choose-version-command';
+import { DiscontinuedPackageCommands } from './commands/discontinued-package-commands';
+import { isVersionOutdated } from './utils/dart-semver';
 
 // Global services
 let cacheService: CacheService;
+let sdkService: SdkService;
+let repositoryService: RepositoryService;
 let pubApiService: PubApiService;
+let lockfileService: LockfileService;
+let pubCacheService: PubCacheService;
+let dependencyGraphService: DependencyGraphService;
 let workspaceService: WorkspaceService;
 let dependencyResolver: DependencyResolver;
 let visualSearchService: VisualSearchService;
 let dependencyTreeProvider: DependencyTreeProvider;
+let cacheTreeProvider: CacheTreeProvider;
 let pubspecAnalyzer: PubspecAnalyzer;
 let pubspecHoverProvider: PubspecHoverProvider;
 let pubspecCodeActionProvider: PubspecCodeActionProvider;
 let searchPackagesCommand: SearchPackagesCommand;
+let explainDependencyCommand: ExplainDependencyCommand;
+let dependencySourceCommands: DependencySourceCommands;
+let repositoryTokenCommand: RepositoryTokenCommand;
+let cacheInspectorCommands: CacheInspectorCommands;
+let chooseVersionCommand: ChooseVersionCommand;
+let discontinuedPackageCommands: DiscontinuedPackageCommands;
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
   console.log('Smart Pub Manager extension is now active!');
@@ -49,6 +75,12 @@ export function deactivate(): void {
   if (pubspecAnalyzer) {
     pubspecAnalyzer.dispose();
   }
+  if (pubApiService) {
+    pubApiService.dispose();
+  }
+  if (cacheService) {
+    cacheService.dispose();
+  }
   console.log('Smart Pub Manager extension has been deactivated');
 }
 
@@ -57,18 +89,36 @@ async function initializeServices(context: vscode.ExtensionContext): Promise<voi
     // Initialize cache service
     cacheService = new CacheService(context);
     
+    // Initialize package server settings and tokens
+    repositoryService = new RepositoryService(context.secrets);
+    
+    // Initialize pub cache reader, also the offline data source
+    pubCacheService = new PubCacheService();
+    
     // Initialize pub.dev API service
-    pubApiService = new PubApiService(cacheService);
+    pubApiService = new PubApiService(cacheService, repositoryService, pubCacheService);
+    
+    // Initialize pubspec.lock reader
+    lockfileService = new LockfileService();
+    
+    // Initialize installed SDK detection
+    sdkService = new SdkService();
     
     // Initialize workspace service
-    workspaceService = new WorkspaceService(pubApiService);
+    workspaceService = new WorkspaceService(pubApiService, lockfileService, sdkService);
     await workspaceService.initialize();
     
+    // Initialize transitive dependency graph
+    dependencyGraphService = new DependencyGraphService(pubApiService, lockfileService, pubCacheService);
+    
     // Initialize dependency resolver
-    dependencyResolver = new DependencyResolver(workspaceService, pubApiService);
+    dependencyResolver = new DependencyResolver(workspaceService, pubApiService, dependencyGraphService, sdkService);
     
     // Initialize tree provider
-    dependencyTreeProvider = new DependencyTreeProvider(workspaceService);
+    dependencyTreeProvider = new DependencyTreeProvider(workspaceService, dependencyGraphService, pubApiService);
+    
+    // Initialize cache inspector
+    cacheTreeProvider = new CacheTreeProvider(cacheService, pubApiService);
     
     // Initialize visual search service
     visualSearchService = new VisualSearchService(context, pubApiService, workspaceService);
@@ -79,7 +129,14 @@ async function initializeServices(context: vscode.ExtensionContext): Promise<voi
     pubspecCodeActionProvider = new PubspecCodeActionProvider(pubspecAnalyzer, workspaceService);
     
     // Initialize commands
-    searchPackagesCommand = new SearchPackagesCommand(pubApiService, workspaceService);
+    const versionPicker = new VersionPicker(pubApiService);
+    searchPackagesCommand = new SearchPackagesCommand(pubApiService, workspaceService, versionPicker);
+    chooseVersionCommand = new ChooseVersionCommand(workspaceService, versionPicker);
+    discontinuedPackageCommands = new DiscontinuedPackageCommands(workspaceService, pubApiService);
+    explainDependencyCommand = new ExplainDependencyCommand(workspaceService, dependencyGraphService);
+    dependencySourceCommands = new DependencySourceCommands(workspaceService, pubApiService);
+    repositoryTokenCommand = new RepositoryTokenCommand(repositoryService);
+    cacheInspectorCommands = new CacheInspectorCommands(cacheService, pubApiService);
     
     console.log('Smart Pub Manager services initialized successfully');
   } catch (error) {
@@ -101,6 +158,89 @@ function registerCommands(context: vscode.ExtensionContext): void {
     () => visualSearchService.showSearchInterface()
   );
 
+  // Reverse dependency explanation
+  const explainDependencyCmd = vscode.commands.registerCommand(
+    'smartPub.explainDependency',
+    (item?: any) => explainDependencyCommand.execute(item)
+  );
+
+  // Source specific dependency actions
+  const openDependencyFolderCmd = vscode.commands.registerCommand(
+    'smartPub.openDependencyFolder',
+    (item?: any) => dependencySourceCommands.openLocalFolder(item)
+  );
+
+  const showGitRefCmd = vscode.commands.registerCommand(
+    'smartPub.showGitRef',
+    (item?: any) => dependencySourceCommands.showGitRef(item)
+  );
+
+  const checkHostedUpdatesCmd = vscode.commands.registerCommand(
+    'smartPub.checkHostedUpdates',
+    (item?: any) => dependencySourceCommands.checkHostedUpdates(item)
+  );
+
+  // Pick any published version of a hosted dependency
+  const chooseVersionCmd = vscode.commands.registerCommand(
+    'smartPub.chooseVersion',
+    (item?: any) => chooseVersionCommand.execute(item)
+  );
+
+  // Migration off discontinued packages
+  const replaceDiscontinuedPackageCmd = vscode.commands.registerCommand(
+    'smartPub.replaceDiscontinuedPackage',
+    (item?: any) => discontinuedPackageCommands.replaceWithSuggested(item)
+  );
+  const findPackageImportsCmd = vscode.commands.registerCommand(
+    'smartPub.findPackageImports',
+    (item?: any) => discontinuedPackageCommands.findImports(item)
+  );
+
+  // Tokens for private package servers
+  const addRepositoryTokenCmd = vscode.commands.registerCommand(
+    'smartPub.addRepositoryToken',
+    () => repositoryTokenCommand.add()
+  );
+
+  const removeRepositoryTokenCmd = vscode.commands.registerCommand(
+    'smartPub.removeRepositoryToken',
+    () => repositoryTokenCommand.remove()
+  );
+
+  // Cache inspector actions
+  const purgeCacheEntryCmd = vscode.commands.registerCommand(
+    'smartPub.purgeCacheEntry',
+    (item?: any) => cacheInspectorCommands.purgeEntry(item)
+  );
+
+  const purgeCacheKindCmd = vscode.commands.registerCommand(
+    'smartPub.purgeCacheKind',
+    (item?: any) => cacheInspectorCommands.purgeKind(item)
+  );
+
+  const purgeCacheOlderThanCmd = vscode.commands.registerCommand(
+    'smartPub.purgeCacheOlderThan',
+    () => cacheInspectorCommands.purgeOlderThan()
+  );
+
+  const refreshCacheEntryCmd = vscode.commands.registerCommand(
+    'smartPub.refreshCacheEntry',
+    (item?: any) => cacheInspectorCommands.refreshEntry(item)
+  );
+
+  // Jump to a dependency line, used by links in the conflict explanation
+  const revealPubspecLineCmd = vscode.commands.registerCommand(
+    'smartPub.revealPubspecLine',
+    async (pubspecPath: string, line: number) => {
+      const document = await vscode.workspace.openTextDocument(pubspecPath);
+      const position = new vscode.Position(line, 0);
+      await vscode.window.showTextDocument(document, {
+        viewColumn: vscode.ViewColumn.One,
+        selection: new vscode.Range(position, position)
+      });
+    }
+  );
+
   // Panel filter commands
   const searchDependenciesCmd = vscode.commands.registerCommand(
     'smartPub.searchDependencies',
@@ -233,20 +373,48 @@ function registerCommands(context: vscode.ExtensionContext): void {
         return;
       }
 
-      const actions = [
-        {
-          label: '$(arrow-up) Update to Latest',
+      const spec = dependency.spec;
+      const actions: Array<{ label: string; action: string }> = [];
+
+      // Only pub.dev and custom hosted packages have versions to update to
+      if (!spec || spec.source === 'hosted') {
+        actions.push({
+          label: '$(arrow-up) Update to Newest Compatible Version',
           action: 'update'
-        },
+        });
+        actions.push({ label: '$(versions) Choose Version...', action: 'chooseVersion' });
+      }
+      if (dependency.isDiscontinued && dependency.replacedBy) {
+        actions.unshift({ label: `$(replace) Replace with ${dependency.replacedBy}`, action: 'replace' });
+      }
+      if (spec?.source === 'hosted' && spec.url) {
+        actions.push({ label: `$(server) Check for Updates on ${spec.url}`, action: 'checkHost' });
+      } else if (spec?.source === 'git') {
+        actions.push({ label: '$(git-branch) Show Git Ref', action: 'gitRef' });
+      } else if (spec?.source === 'path') {
+        actions.push({ label: '$(folder-opened) Open Local Folder', action: 'openFolder' });
+      }
+
+      actions.push(
         {
           label: '$(trash) Remove Dependency',
           action: 'remove'
         },
         {
+          label: '$(question) Why Is This Package Here?',
+          action: 'why'
+        },
+        {
+          label: '$(references) Find Dart Files Importing It',
+          action: 'imports'
+        }
+      );
+      if (!spec || (spec.source === 'hosted' && !spec.url)) {
+        actions.push({
           label: '$(link-external) View on pub.dev',
           action: 'view'
-        }
-      ];
+        });
+      }
 
       const selected = await vscode.window.showQuickPick(actions, {
         placeHolder: `Actions for ${dependency.name}`
@@ -254,19 +422,41 @@ function registerCommands(context: vscode.ExtensionContext): void {
 
       if (selected) {
         switch (selected.action) {
-          case 'update':
-            if (dependency.latestVersion) {
+          case 'update': {
+            // The newest version the project's SDK supports, not always the latest
+            const suggestedVersion = dependency.resolvableVersion && isVersionOutdated(dependency.version, dependency.resolvableVersion)
+              ? dependency.resolvableVersion
+              : dependency.latestRequires ? undefined : dependency.latestVersion;
+            if (suggestedVersion) {
               await workspaceService.updateDependency(
                 projectPath,
                 dependency.name,
-                dependency.latestVersion,
+                suggestedVersion,
                 dependency.isDev || false
               );
               dependencyTreeProvider.refresh();
+            } else if (dependency.latestRequires) {
+              const choice = await vscode.window.showWarningMessage(
+                `${dependency.name} ${dependency.latestVersion} needs ${dependency.latestRequires}, and no newer version works with the project's SDK`,
+                'Update SDK Constraints...'
+              );
+              if (choice) {
+                await vscode.commands.executeCommand('smartPub.updateSdkConstraints', projectPath);
+              }
             } else {
               vscode.window.showWarningMessage(`No latest version available for ${dependency.name}`);
             }
             break;
+          }
+          case 'replace':
+            await discontinuedPackageCommands.replaceWithSuggested({ projectPath, dependency });
+            break;
+          case 'imports':
+            await discontinuedPackageCommands.findImports({ projectPath, dependency });
+            break;
+          case 'chooseVersion':
+            await chooseVersionCommand.execute({ projectPath, dependency });
+            break;
           case 'remove':
             const confirmRemove = await vscode.window.showWarningMessage(
               `Remove ${dependency.name} from dependencies?`,
@@ -277,6 +467,18 @@ function registerCommands(context: vscode.ExtensionContext): void {
               dependencyTreeProvider.refresh();
             }
             break;
+          case 'why':
+            await explainDependencyCommand.execute({ projectPath, dependency });
+            break;
+          case 'checkHost':
+            await dependencySourceCommands.checkHostedUpdates({ projectPath, dependency });
+            break;
+          case 'gitRef':
+            await dependencySourceCommands.showGitRef({ projectPath, dependency });
+            break;
+          case 'openFolder':
+            await dependencySourceCommands.openLocalFolder({ projectPath, dependency });
+            break;
           case 'view':
             vscode.env.openExternal(vscode.Uri.parse(`https://pub.dev/packages/${dependency.name}`));
             break;
@@ -334,6 +536,30 @@ function registerCommands(context: vscode.ExtensionContext): void {
     }
   );
 
+  // Rewrite environment: to fit the installed SDK and every dependency
+  const updateSdkConstraintsCmd = vscode.commands.registerCommand(
+    'smartPub.updateSdkConstraints',
+    async (item?: any) => {
+      let projectPath: string | undefined = typeof item === 'string' ? item : item?.projectPath;
+      if (!projectPath) {
+        const projects = workspaceService.getProjects();
+        if (projects.length === 1) {
+          projectPath = projects[0].path;
+        } else {
+          const selectedProject = await vscode.window.showQuickPick(
+            projects.map(project => ({ label: project.name, description: project.path, project })),
+            { placeHolder: 'Select project to update SDK constraints' }
+          );
+          projectPath = selectedProject?.project.path;
+        }
+      }
+
+      if (projectPath) {
+        await dependencyResolver.updateSdkConstraints(projectPath);
+      }
+    }
+  );
+
   // Update package command
   const updatePackageCmd = vscode.commands.registerCommand(
     'smartPub.updatePackage',
@@ -431,6 +657,20 @@ function registerCommands(context: vscode.ExtensionContext): void {
   context.subscriptions.push(
     searchPackagesCmd,
     visualSearchCmd,
+    explainDependencyCmd,
+    openDependencyFolderCmd,
+    showGitRefCmd,
+    checkHostedUpdatesCmd,
+    chooseVersionCmd,
+    replaceDiscontinuedPackageCmd,
+    findPackageImportsCmd,
+    addRepositoryTokenCmd,
+    removeRepositoryTokenCmd,
+    purgeCacheEntryCmd,
+    purgeCacheKindCmd,
+    purgeCacheOlderThanCmd,
+    refreshCacheEntryCmd,
+    revealPubspecLineCmd,
     searchDependenciesCmd,
     toggleFilterCmd,
     changeSortingCmd,
@@ -442,6 +682,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
     refreshDependenciesCmd,
     clearCacheCmd,
     resolveDependencyConflictsCmd,
+    updateSdkConstraintsCmd,
     updatePackageCmd,
     analyzeCurrentFileCmd
   );
@@ -454,6 +695,11 @@ function registerProviders(context: vscode.ExtensionContext): void {
     showCollapseAll: true
   });
 
+  const cacheView = vscode.window.createTreeView('smartPubCache', {
+    treeDataProvider: cacheTreeProvider
+  });
+  cacheView.description = cacheTreeProvider.getSummary();
+
   // Register pubspec.yaml providers
   const pubspecSelector = { scheme: 'file', language: 'yaml', pattern: '**/pubspec.yaml' };
   
@@ -487,6 +733,57 @@ function registerProviders(context: vscode.ExtensionContext): void {
     }
   });
 
+  // Refresh tree when a pubspec.yaml or pubspec.lock is re-read
+  const projectsWatcher = workspaceService.onDidChangeProjects(() => {
+    dependencyGraphService.clear();
+    dependencyTreeProvider.refresh();
+
+    // Diagnostics depend on pubspec.lock too, so re-analyze open pubspecs
+    pubspecAnalyzer.clearCache();
+    vscode.workspace.textDocuments.forEach(async (document) => {
+      if (document.fileName.endsWith('pubspec.yaml')) {
+        await pubspecAnalyzer.analyzePubspecFile(document);
+      }
+    });
+  });
+
+  // Fill in versions as the background check delivers them, then redraw
+  // the project counters once the whole project is done
+  const dependencyUpdateWatcher = workspaceService.onDidUpdateDependency(update => {
+    dependencyTreeProvider.refreshDependency(update.projectPath, update.dependency);
+  });
+  const versionCheckWatcher = workspaceService.onDidFinishVersionCheck(() => {
+    dependencyTreeProvider.refresh();
+  });
+  const sdkWatcher = workspaceService.onDidDetectSdk(() => {
+    dependencyTreeProvider.refresh();
+  });
+  const sdkSettingsWatcher = vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration('dart.flutterSdkPath') || event.affectsConfiguration('dart.sdkPath')) {
+      workspaceService.refreshSdks();
+    }
+  });
+
+  // Keep the cache inspector in sync with the cache on disk
+  const cacheWatcher = cacheService.onDidChange(() => {
+    cacheTreeProvider.refresh();
+    cacheView.description = cacheTreeProvider.getSummary();
+  });
+
+  // Show or hide the offline indicator
+  const offlineWatcher = pubApiService.onDidChangeOfflineState(() => {
+    dependencyTreeProvider.refresh();
+  });
+
+  // Hand failed pub get runs to the dependency resolver
+  const pubGetFailureWatcher = workspaceService.onDidFailPubGet((result) => {
+    const output = result.stderr.trim() || result.stdout.trim() || `exit code ${result.exitCode}`;
+    dependencyResolver.handlePubGetError(result.projectPath, output).catch(error => {
+      console.error('Error handling pub get failure:', error);
+      workspaceService.appendPubOutput(`Failed to explain the pub get failure: ${error}`);
+    });
+  });
+
   // Refresh tree when workspace changes
   const workspaceWatcher = vscode.workspace.onDidChangeWorkspaceFolders(() => {
     workspaceService.initialize().then(() => {
@@ -503,7 +800,16 @@ function registerProviders(context: vscode.ExtensionContext): void {
 
   context.subscriptions.push(
     treeView, 
+    cacheView,
+    cacheWatcher,
     workspaceWatcher,
+    projectsWatcher,
+    dependencyUpdateWatcher,
+    versionCheckWatcher,
+    sdkWatcher,
+    sdkSettingsWatcher,
+    offlineWatcher,
+    pubGetFailureWatcher,
     hoverProvider,
     codeActionProvider,
     documentWatcher,
@@ -539,7 +845,7 @@ function registerCompletionProviders(context: vscode.ExtensionContext): void {
         }
 
         try {
-          const packages = await pubApiService.searchPackages(word);
+          const packages = await pubApiService.searchPackages(word, 1, token);
           
           return packages.slice(0, 10).map(pkg => {
             const item = new vscode.CompletionItem(pkg.name, vscode.CompletionItemKind.Module);
@@ -558,7 +864,9 @@ function registerCompletionProviders(context: vscode.ExtensionContext): void {
             return item;
           });
         } catch (error) {
-          console.error('Error providing completions:', error);
+          if (!(error instanceof vscode.CancellationError)) {
+            console.error('Error providing completions:', error);
+          }
           return undefined;
         }
       }
@@ -603,11 +911,19 @@ async function updateProjectDependencies(projectPath: string): Promise<void> {
     }, async (progress) => {
       progress.report({ increment: 20, message: 'Analyzing dependencies' });
       
-      const updates = await workspaceService.checkForUpdates(projectPath);
+      const { updates, needsSdkBump } = await workspaceService.checkForUpdates(projectPath);
       const updateCount = Object.keys(updates).length;
 
+      // Latest releases the project's SDK can't use yet
+      const sdkBumpList = Object.entries(needsSdkBump)
+        .map(([name, { latest, requires }]) => `• ${name}: ${latest} needs ${requires}`)
+        .join('\n');
+      const sdkBumpNote = sdkBumpList ? `\n\nOnly reachable with an SDK bump:\n${sdkBumpList}` : '';
+
       if (updateCount === 0) {
-        vscode.window.showInformationMessage('All dependencies are up to date!');
+        vscode.window.showInformationMessage(
+          sdkBumpList ? `No updates fit the project's SDK.${sdkBumpNote}` : 'All dependencies are up to date!'
+        );
         return;
       }
 
@@ -618,7 +934,7 @@ async function updateProjectDependencies(projectPath: string): Promise<void> {
         .join('\n');
 
       const choice = await vscode.window.showInformationMessage(
-        `Found ${updateCount} dependency update${updateCount > 1 ? 's' : ''}:\n\n${updateList}`,
+        `Found ${updateCount} dependency update${updateCount > 1 ? 's' : ''}:\n\n${updateList}${sdkBumpNote}`,
         'Update All',
         'Update Individually',
         'Cancel'
@@ -627,12 +943,13 @@ async function updateProjectDependencies(projectPath: string): Promise<void> {
       if (choice === 'Update All') {
         progress.report({ increment: 20, message: 'Updating dependencies' });
         
-        for (const [name, version] of Object.entries(updates)) {
-          await workspaceService.updateDependency(projectPath, name, version);
-        }
+        // Shown in the refactor preview so the changes can be reviewed first
+        const updated = await workspaceService.updateDependencies(projectPath, updates);
         
         dependencyTreeProvider.refresh();
-        vscode.window.showInformationMessage(`Updated ${updateCount} dependencies!`);
+        if (updated) {
+          vscode.window.showInformationMessage(`Updated ${updateCount} dependencies!`);
+        }
       } else if (choice === 'Update Individually') {
         await showIndividualUpdatePicker(projectPath, updates);
       }
@@ -659,12 +976,13 @@ async function showIndividualUpdatePicker(projectPath: string, updates: Record<s
   });
 
   if (selected && selected.length > 0) {
-    for (const item of selected) {
-      await workspaceService.updateDependency(projectPath, item.name, item.version);
-    }
+    const selectedUpdates = Object.fromEntries(selected.map(item => [item.name, item.version]));
+    const updated = await workspaceService.updateDependencies(projectPath, selectedUpdates, false);
     
     dependencyTreeProvider.refresh();
-    vscode.window.showInformationMessage(`Updated ${selected.length} dependencies!`);
+    if (updated) {
+      vscode.window.showInformationMessage(`Updated ${selected.length} dependencies!`);
+    }
   }
 }
 
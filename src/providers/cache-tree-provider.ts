@@ -0,0 +1,164 @@
+import * as vscode from 'vscode';
+import { CacheEntryInfo, CacheService } from '../services/cache-service';
+import { PubApiService } from '../services/pub-api-service';
+
+/**
+ * Cache inspector: lists what is cached on disk, grouped by kind, with the
+ * size, age and expiry of each entry.
+ */
+export class CacheTreeProvider implements vscode.TreeDataProvider<CacheTreeItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<CacheTreeItem | undefined | null | void> = new vscode.EventEmitter<CacheTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<CacheTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  private readonly kindLabels: Record<string, { label: string; icon: string }> = {
+    package: { label: 'Package Details', icon: 'package' },
+    search: { label: 'Search Results', icon: 'search' },
+    score: { label: 'Package Scores', icon: 'star' }
+  };
+
+  constructor(
+    private cacheService: CacheService,
+    private pubApiService: PubApiService
+  ) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Shown as the view's description, e.g. `1.2 MB of 50 MB`.
+   */
+  public getSummary(): string {
+    const maxSize = vscode.workspace.getConfiguration('smartPub').get<number>('cacheMaxSize', 50);
+    return `${this.formatSize(this.cacheService.getTotalSize())} of ${maxSize} MB`;
+  }
+
+  getTreeItem(element: CacheTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: CacheTreeItem): Thenable<CacheTreeItem[]> {
+    if (!element) {
+      return Promise.resolve(this.getKindItems());
+    }
+
+    if (element.type === 'kind' && element.kind) {
+      return Promise.resolve(this.getEntryItems(element.kind));
+    }
+
+    return Promise.resolve([]);
+  }
+
+  private getKindItems(): CacheTreeItem[] {
+    const entries = this.cacheService.getEntries();
+    if (entries.length === 0) {
+      const emptyItem = new CacheTreeItem('Cache is empty', vscode.TreeItemCollapsibleState.None, 'info');
+      emptyItem.iconPath = new vscode.ThemeIcon('info');
+      return [emptyItem];
+    }
+
+    const kinds = Array.from(new Set(entries.map(entry => entry.kind))).sort();
+    return kinds.map(kind => {
+      const kindEntries = entries.filter(entry => entry.kind === kind);
+      const size = kindEntries.reduce((total, entry) => total + entry.size, 0);
+      const info = this.kindLabels[kind] || { label: kind, icon: 'database' };
+
+      const item = new CacheTreeItem(info.label, vscode.TreeItemCollapsibleState.Collapsed, 'kind');
+      item.kind = kind;
+      item.description = `${kindEntries.length} entries • ${this.formatSize(size)}`;
+      item.iconPath = new vscode.ThemeIcon(info.icon);
+      item.contextValue = 'cacheKind';
+      return item;
+    });
+  }
+
+  private getEntryItems(kind: string): CacheTreeItem[] {
+    const now = Date.now();
+
+    return this.cacheService.getEntries()
+      .filter(entry => entry.kind === kind)
+      .map(entry => {
+        const request = this.pubApiService.describeCacheKey(entry.key);
+        const isExpired = now > entry.expiresAt;
+
+        let label = entry.key;
+        let host: string | undefined;
+        if (request?.kind === 'package' || request?.kind === 'score') {
+          label = request.packageName;
+          host = request.hostedUrl;
+        } else if (request?.kind === 'search') {
+          label = `"${request.query}"${request.page > 1 ? ` (page ${request.page})` : ''}`;
+          host = request.hostedUrl;
+        }
+
+        const item = new CacheTreeItem(label, vscode.TreeItemCollapsibleState.None, 'entry');
+        item.entry = entry;
+        item.contextValue = 'cacheEntry';
+        item.description = [
+          host && host !== 'https://pub.dev' ? host : undefined,
+          this.formatSize(entry.size),
+          `${this.formatDuration(now - entry.timestamp)} old`,
+          isExpired
+            ? `expired ${this.formatDuration(now - entry.expiresAt)} ago`
+            : `expires in ${this.formatDuration(entry.expiresAt - now)}`
+        ].filter(Boolean).join(' • ');
+        item.iconPath = new vscode.ThemeIcon(
+          isExpired ? 'history' : 'check',
+          isExpired ? new vscode.ThemeColor('charts.orange') : new vscode.ThemeColor('charts.green')
+        );
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${label}**\n\n`);
+        if (host) {
+          tooltip.appendMarkdown(`• Server: ${host}\n`);
+        }
+        tooltip.appendMarkdown(`• Size: ${this.formatSize(entry.size)}\n`);
+        tooltip.appendMarkdown(`• Fetched: ${new Date(entry.timestamp).toLocaleString()}\n`);
+        tooltip.appendMarkdown(`• ${isExpired ? 'Expired' : 'Expires'}: ${new Date(entry.expiresAt).toLocaleString()}\n`);
+        if (isExpired) {
+          tooltip.appendMarkdown(`\nExpired entries are still served and refreshed in the background on next use.`);
+        }
+        item.tooltip = tooltip;
+
+        return item;
+      });
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024) {
+      return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) {
+      return `${Math.max(0, Math.floor(ms / 1000))}s`;
+    }
+    if (minutes < 60) {
+      return `${minutes}m`;
+    }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 48) {
+      return `${hours}h`;
+    }
+    return `${Math.floor(hours / 24)}d`;
+  }
+}
+
+class CacheTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly label: string,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly type: 'kind' | 'entry' | 'info'
+  ) {
+    super(label, collapsibleState);
+  }
+
+  kind?: string;
+  entry?: CacheEntryInfo;
+}
@@ -1,7 +1,11 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { WorkspaceProject, DependencyInfo } from '../types/pub-types';
+import { WorkspaceProject, DependencyInfo, DependencyNode } from '../types/pub-types';
 import { WorkspaceService } from '../services/workspace-service';
+import { DependencyGraphService } from '../services/dependency-graph-service';
+import { PubApiService } from '../services/pub-api-service';
+import { describeDependencySpec } from '../utils/dependency-spec';
+import { formatCount, getPointsRatio } from '../utils/package-score';
 
 export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = new vscode.EventEmitter<TreeItem | undefined | null | void>();
@@ -24,13 +28,35 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
   private searchQuery: string = '';
   private activeFilters: Set<string> = new Set(['all']);
   private sortBy: 'name' | 'status' | 'category' = 'name';
+  /** Dependency nodes currently shown, so they can be updated one by one */
+  private dependencyItems = new Map<string, TreeItem>();
 
-  constructor(private workspaceService: WorkspaceService) {}
+  constructor(
+    private workspaceService: WorkspaceService,
+    private dependencyGraphService: DependencyGraphService,
+    private pubApiService: PubApiService
+  ) {}
 
   refresh(): void {
+    this.dependencyItems.clear();
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Redraws a single dependency node, e.g. when its versions arrive from the
+   * background version check.
+   */
+  public refreshDependency(projectPath: string, dependency: DependencyInfo): void {
+    const item = this.dependencyItems.get(this.getDependencyItemKey(projectPath, dependency));
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+    if (!item || !project || item.dependency !== dependency) {
+      return;
+    }
+
+    this.updateDependencyItem(item, project, dependency);
+    this._onDidChangeTreeData.fire(item);
+  }
+
   // Public methods for filtering and searching
   public setSearchQuery(query: string): void {
     this.searchQuery = query.toLowerCase();
@@ -84,6 +110,15 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
       return this.getDependencyItems(element.projectPath!, element.isDev!);
     }
 
+    if (element.type === 'dependency' && element.dependency) {
+      // Dependency level - show what the package pulls in
+      return this.getTransitiveItemsForDependency(element.projectPath!, element.dependency.name);
+    }
+
+    if (element.type === 'transitive' && element.node) {
+      return Promise.resolve(this.createTransitiveItems(element.projectPath!, element.node.children));
+    }
+
     if (element.type === 'filters') {
       // Show filter options
       return this.getFilterItems();
@@ -96,6 +131,19 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
     const projects = this.workspaceService.getProjects();
     const items: TreeItem[] = [];
 
+    // Offline indicator, versions come from the local pub cache
+    if (this.pubApiService.isOffline()) {
+      const offlineItem = new TreeItem(
+        '☁️ Offline',
+        vscode.TreeItemCollapsibleState.None,
+        'offline'
+      );
+      offlineItem.description = 'using local pub cache';
+      offlineItem.iconPath = new vscode.ThemeIcon('cloud-offline', new vscode.ThemeColor('charts.orange'));
+      offlineItem.tooltip = 'The package server cannot be reached, so versions come from the local pub cache and "latest" is the newest version pub has seen.';
+      items.push(offlineItem);
+    }
+
     // Add search and filter controls at the top
     if (projects.length > 0) {
       const filtersItem = new TreeItem(
@@ -136,6 +184,7 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
       );
       
       item.projectPath = project.path;
+      item.contextValue = 'project';
       item.iconPath = new vscode.ThemeIcon('folder-opened', 
         outdatedDeps > 0 
           ? new vscode.ThemeColor('charts.orange')
@@ -151,6 +200,10 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
       } else {
         item.description = `${totalDeps} deps${outdatedDeps > 0 ? `, ${outdatedDeps} outdated` : ''}`;
       }
+      const sdkLabel = this.getSdkLabel(project);
+      if (sdkLabel) {
+        item.description += ` • ${sdkLabel}`;
+      }
       
       items.push(item);
     });
@@ -232,7 +285,6 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
     const regularDeps = allDeps.filter(d => !d.isDev);
     const devDeps = allDeps.filter(d => d.isDev);
     const outdatedCount = allDeps.filter(d => d.isOutdated).length;
-    const upToDateCount = allDeps.filter(d => !d.isOutdated).length;
 
     const items: TreeItem[] = [];
 
@@ -260,8 +312,8 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
         'health'
       );
       healthItem.projectPath = projectPath;
-      const healthScore = Math.round((upToDateCount / allDeps.length) * 100);
-      healthItem.description = `${healthScore}% up-to-date`;
+      const healthScore = this.calculateHealthScore(allDeps);
+      healthItem.description = `${healthScore}% healthy`;
       healthItem.iconPath = new vscode.ThemeIcon('pulse', 
         healthScore >= 80 ? new vscode.ThemeColor('charts.green') :
         healthScore >= 60 ? new vscode.ThemeColor('charts.yellow') :
@@ -340,44 +392,107 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
     dependencies = this.sortDependencies(dependencies);
     
     return dependencies.map(dep => {
-      const { icon, color, category } = this.getPackageVisualInfo(dep);
-      const statusEmoji = dep.isOutdated ? '⚠️' : '✅';
-      
-      // Enhanced label with visual indicators
-      const label = `${statusEmoji} ${dep.name}`;
-      
+      const isLocked = Boolean(project.lock?.packages[dep.name]);
       const item = new TreeItem(
-        label,
-        vscode.TreeItemCollapsibleState.None,
+        dep.name,
+        isLocked ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
         'dependency'
       );
 
       item.projectPath = projectPath;
-      item.dependency = dep;
-      
-      // Rich description with version and category info
-      const versionInfo = dep.isOutdated && dep.latestVersion 
-        ? `${dep.version} → ${dep.latestVersion}`
-        : dep.version;
-      item.description = `${versionInfo}${category ? ` • ${category}` : ''}`;
-      
-      // Enhanced icon with color
-      item.iconPath = new vscode.ThemeIcon(icon, color);
-      
-      // Rich tooltip with detailed information
-      item.tooltip = this.createEnhancedDependencyTooltip(dep, category);
-      
-      // Context value for different actions
-      item.contextValue = dep.isOutdated ? 'outdatedDependency' : 'dependency';
-
-      // Add command for quick actions - only if dependency is valid
-      if (dep.name && dep.version) {
-        item.command = {
-          command: 'smartPub.showDependencyActions',
-          title: 'Show Dependency Actions',
-          arguments: [projectPath, dep]
-        };
+      this.updateDependencyItem(item, project, dep);
+      this.dependencyItems.set(this.getDependencyItemKey(projectPath, dep), item);
+
+      return item;
+    });
+  }
+
+  private updateDependencyItem(item: TreeItem, project: WorkspaceProject, dep: DependencyInfo): void {
+    const { icon, color, category } = this.getSourceVisualInfo(dep) || this.getPackageVisualInfo(dep);
+    const statusEmoji = dep.isCheckingVersions ? '🔄'
+      : dep.isDiscontinued ? '🚫'
+      : dep.isRetracted ? '⛔'
+      : dep.isOutdated ? '⚠️'
+      : '✅';
+    
+    // Enhanced label with visual indicators
+    item.label = `${statusEmoji} ${dep.name}`;
+    item.dependency = dep;
+    
+    // Rich description with version and category info
+    const resolvedVersion = dep.currentVersion || dep.version;
+    const versionInfo = dep.spec.source === 'git' || dep.spec.source === 'path'
+      ? `${describeDependencySpec(dep.spec)}${dep.currentVersion ? ` (${dep.currentVersion})` : ''}`
+      : dep.isOutdated && dep.latestVersion 
+        ? `${resolvedVersion} → ${dep.latestVersion}`
+        : resolvedVersion;
+    item.description = `${versionInfo}${category ? ` • ${category}` : ''}`;
+    
+    // Enhanced icon with color
+    item.iconPath = dep.isDiscontinued
+      ? new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('charts.red'))
+      : new vscode.ThemeIcon(icon, color);
+    
+    // Rich tooltip with detailed information
+    item.tooltip = this.createEnhancedDependencyTooltip(dep, category);
+    
+    // Context value for different actions
+    item.contextValue = this.getDependencyContextValue(dep);
+
+    // Add command for quick actions - only if dependency is valid
+    if (dep.name && dep.version) {
+      item.command = {
+        command: 'smartPub.showDependencyActions',
+        title: 'Show Dependency Actions',
+        arguments: [project.path, dep]
+      };
+    }
+  }
+
+  private getDependencyItemKey(projectPath: string, dep: DependencyInfo): string {
+    return `${projectPath}|${dep.isDev ? 'dev' : 'main'}|${dep.name}`;
+  }
+
+  private async getTransitiveItemsForDependency(projectPath: string, packageName: string): Promise<TreeItem[]> {
+    try {
+      const subtree = await this.dependencyGraphService.buildSubtree(projectPath, packageName);
+      return this.createTransitiveItems(projectPath, subtree.children);
+    } catch (error) {
+      console.error(`Error building dependency tree for ${packageName}:`, error);
+      return [];
+    }
+  }
+
+  private createTransitiveItems(projectPath: string, nodes: DependencyNode[]): TreeItem[] {
+    return nodes.map(node => {
+      const hasChildren = node.children.length > 0 && !node.repeated;
+      const item = new TreeItem(
+        node.name,
+        hasChildren ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        'transitive'
+      );
+
+      item.projectPath = projectPath;
+      item.node = node;
+      item.description = `${node.version || 'not locked'}${node.repeated ? ' (see above)' : ''}`;
+      item.iconPath = new vscode.ThemeIcon(
+        node.repeated ? 'references' : 'package',
+        node.version ? undefined : new vscode.ThemeColor('charts.orange')
+      );
+      item.contextValue = 'transitiveDependency';
+
+      const tooltip = new vscode.MarkdownString();
+      tooltip.appendMarkdown(`**${node.name}** \`${node.version || 'not locked'}\`\n\n`);
+      if (node.constraint) {
+        tooltip.appendMarkdown(`• Required as: \`${node.constraint}\`\n`);
       }
+      if (node.source) {
+        tooltip.appendMarkdown(`• Source: ${node.source}\n`);
+      }
+      if (node.repeated) {
+        tooltip.appendMarkdown(`• Dependencies already listed above\n`);
+      }
+      item.tooltip = tooltip;
 
       return item;
     });
@@ -433,6 +548,49 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
     });
   }
 
+  /**
+   * Context values per source, so the view can offer source specific actions.
+   * Packages from pub.dev keep the plain `dependency` / `outdatedDependency`.
+   */
+  private getDependencyContextValue(dep: DependencyInfo): string {
+    switch (dep.spec.source) {
+      case 'git':
+        return 'gitDependency';
+      case 'path':
+        return 'pathDependency';
+      case 'sdk':
+        return 'sdkDependency';
+      default:
+        if (dep.spec.url) {
+          return dep.isOutdated ? 'outdatedCustomHostedDependency' : 'customHostedDependency';
+        }
+        if (dep.isDiscontinued) {
+          return 'discontinuedDependency';
+        }
+        return dep.isOutdated ? 'outdatedDependency' : 'dependency';
+    }
+  }
+
+  private getSourceVisualInfo(dep: DependencyInfo): { icon: string, color: vscode.ThemeColor, category?: string } | null {
+    switch (dep.spec.source) {
+      case 'git':
+        return { icon: 'git-branch', color: new vscode.ThemeColor('charts.purple'), category: 'Git' };
+      case 'path':
+        return { icon: 'folder', color: new vscode.ThemeColor('charts.yellow'), category: 'Local' };
+      case 'sdk':
+        return { icon: 'library', color: new vscode.ThemeColor('charts.blue'), category: 'SDK' };
+      default:
+        if (dep.spec.url) {
+          return {
+            icon: 'server',
+            color: new vscode.ThemeColor(dep.isOutdated ? 'charts.orange' : 'charts.green'),
+            category: 'Private'
+          };
+        }
+        return null;
+    }
+  }
+
   private getPackageCategoryType(packageName: string): string {
     const lowerName = packageName.toLowerCase();
     for (const [categoryName, packages] of Object.entries(this.packageCategories)) {
@@ -522,13 +680,41 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
     }
   }
 
+  /**
+   * E.g. `Flutter 3.19.0 (FVM)`, once the project's SDK has been detected.
+   */
+  private getSdkLabel(project: WorkspaceProject): string | undefined {
+    const sdk = project.sdk;
+    const version = project.usesFlutter && sdk?.flutterVersion
+      ? `Flutter ${sdk.flutterVersion}`
+      : sdk?.dartVersion ? `Dart ${sdk.dartVersion}` : undefined;
+    if (!sdk || !version) {
+      return undefined;
+    }
+
+    switch (sdk.source) {
+      case 'fvm':
+        return `${version} (FVM)`;
+      case 'setting':
+        return `${version} (custom SDK)`;
+      default:
+        return version;
+    }
+  }
+
   private createProjectTooltip(project: WorkspaceProject, totalDeps: number, outdatedDeps: number): vscode.MarkdownString {
     const tooltip = new vscode.MarkdownString();
     tooltip.isTrusted = true;
     tooltip.supportHtml = true;
 
-    tooltip.appendMarkdown(`**${project.name}** Flutter Project\n\n`);
+    tooltip.appendMarkdown(`**${project.name}** ${project.usesFlutter ? 'Flutter' : 'Dart'} Project\n\n`);
     tooltip.appendMarkdown(`📁 **Location:** \`${project.path}\`\n\n`);
+    if (project.sdk) {
+      tooltip.appendMarkdown(`🛠️ **SDK:** ${this.getSdkLabel(project) ?? 'not found'} — \`${project.sdk.executable}\`\n\n`);
+      if (project.sdk.fvmVersion && project.sdk.source !== 'fvm') {
+        tooltip.appendMarkdown(`⚠️ FVM pins Flutter **${project.sdk.fvmVersion}**, but it isn't installed. Run \`fvm install\` in the project.\n\n`);
+      }
+    }
     tooltip.appendMarkdown(`📊 **Dependencies Summary:**\n`);
     tooltip.appendMarkdown(`• Total packages: **${totalDeps}**\n`);
     tooltip.appendMarkdown(`• Up to date: **${totalDeps - outdatedDeps}**\n`);
@@ -545,12 +731,29 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
 
     const total = dependencies.length;
     const outdated = dependencies.filter(d => d.isOutdated).length;
-    const upToDate = total - outdated;
+    const discontinued = dependencies.filter(d => d.isDiscontinued);
+    const upToDate = dependencies.filter(d => !d.isOutdated && !d.isDiscontinued).length;
 
     tooltip.appendMarkdown(`**Project Health Score: ${healthScore}%**\n\n`);
     tooltip.appendMarkdown(`📊 **Dependency Status:**\n`);
     tooltip.appendMarkdown(`• ✅ Up to date: **${upToDate}** packages\n`);
-    tooltip.appendMarkdown(`• ⚠️ Outdated: **${outdated}** packages\n\n`);
+    tooltip.appendMarkdown(`• ⚠️ Outdated: **${outdated}** packages\n`);
+    if (discontinued.length > 0) {
+      tooltip.appendMarkdown(`• 🚫 Discontinued: ${discontinued.map(d => `\`${d.name}\``).join(', ')}\n`);
+    }
+    tooltip.appendMarkdown(`\n`);
+
+    const scored = dependencies.filter(d => getPointsRatio(d.metrics) !== undefined);
+    if (scored.length > 0) {
+      const averagePoints = scored.reduce((sum, d) => sum + getPointsRatio(d.metrics)!, 0) / scored.length;
+      const lowScoring = scored.filter(d => getPointsRatio(d.metrics)! < 0.5);
+      tooltip.appendMarkdown(`⭐ **Package Quality:**\n`);
+      tooltip.appendMarkdown(`• Average pub points: **${Math.round(averagePoints * 100)}%** of the maximum (${scored.length} packages)\n`);
+      if (lowScoring.length > 0) {
+        tooltip.appendMarkdown(`• Low pub points: ${lowScoring.map(d => `\`${d.name}\``).join(', ')}\n`);
+      }
+      tooltip.appendMarkdown(`\n`);
+    }
     
     if (healthScore >= 80) {
       tooltip.appendMarkdown(`🎉 **Excellent!** Your dependencies are well maintained.`);
@@ -563,6 +766,23 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
     return tooltip;
   }
 
+  /**
+   * Share of up-to-date, maintained dependencies, blended 70/30 with the
+   * average pub points of the dependencies that have a score.
+   */
+  private calculateHealthScore(dependencies: DependencyInfo[]): number {
+    const upToDate = dependencies.filter(d => !d.isOutdated && !d.isDiscontinued).length / dependencies.length;
+    const ratios = dependencies
+      .map(d => getPointsRatio(d.metrics))
+      .filter((ratio): ratio is number => ratio !== undefined);
+    if (ratios.length === 0) {
+      return Math.round(upToDate * 100);
+    }
+
+    const quality = ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length;
+    return Math.round((upToDate * 0.7 + quality * 0.3) * 100);
+  }
+
   private createEnhancedDependencyTooltip(dep: DependencyInfo, category?: string): vscode.MarkdownString {
     const tooltip = new vscode.MarkdownString();
     tooltip.isTrusted = true;
@@ -575,22 +795,58 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
     }
     tooltip.appendMarkdown(`\n\n`);
 
+    // Source information for anything not on pub.dev
+    this.appendSourceTooltip(tooltip, dep);
+
     // Version information
     tooltip.appendMarkdown(`📦 **Version Information:**\n`);
-    tooltip.appendMarkdown(`• Current: \`${dep.version}\`\n`);
+    tooltip.appendMarkdown(`• Constraint: \`${dep.spec.constraint || 'any'}\`\n`);
+    tooltip.appendMarkdown(`• Current: \`${dep.currentVersion || '-'}\`${dep.isRetracted ? ' ⛔ **retracted**' : ''}\n`);
+    tooltip.appendMarkdown(`• Upgradable: \`${dep.upgradableVersion || '-'}\`\n`);
+    tooltip.appendMarkdown(`• Resolvable: \`${dep.resolvableVersion || '-'}\`\n`);
     
-    if (dep.latestVersion) {
+    if (dep.isCheckingVersions) {
+      tooltip.appendMarkdown(`• Latest: *checking...*\n`);
+    } else if (dep.latestVersion) {
       tooltip.appendMarkdown(`• Latest: \`${dep.latestVersion}\`\n`);
       
-      if (dep.isOutdated) {
+      if (dep.isDiscontinued) {
+        tooltip.appendMarkdown(`• Status: 🚫 **Discontinued**${dep.replacedBy ? `, replaced by \`${dep.replacedBy}\`` : ''}\n`);
+      } else if (dep.isOutdated) {
         tooltip.appendMarkdown(`• Status: ⚠️ **Update available**\n`);
+        if (dep.latestRequires) {
+          tooltip.appendMarkdown(`• Latest needs ${dep.latestRequires}, newest compatible: \`${dep.resolvableVersion || '-'}\`\n`);
+        }
       } else {
         tooltip.appendMarkdown(`• Status: ✅ **Up to date**\n`);
       }
     }
 
     // Package type
-    tooltip.appendMarkdown(`• Type: ${dep.isDev ? '🔧 Development' : '📱 Production'}\n\n`);
+    tooltip.appendMarkdown(`• Type: ${dep.isDev ? '🔧 Development' : '📱 Production'}\n`);
+    if (dep.source) {
+      tooltip.appendMarkdown(`• Resolved from: ${dep.source} (${dep.kind})\n`);
+    }
+    tooltip.appendMarkdown(`\n`);
+
+    // Quality data from pub.dev
+    if (dep.metrics) {
+      const metrics = dep.metrics;
+      tooltip.appendMarkdown(`⭐ **Quality:**\n`);
+      if (metrics.grantedPoints !== undefined) {
+        tooltip.appendMarkdown(`• Pub points: **${metrics.grantedPoints}**/${metrics.maxPoints ?? '?'}\n`);
+      }
+      if (metrics.likeCount !== undefined) {
+        tooltip.appendMarkdown(`• Likes: **${formatCount(metrics.likeCount)}**\n`);
+      }
+      if (metrics.popularityScore !== undefined) {
+        tooltip.appendMarkdown(`• Popularity: **${Math.round(metrics.popularityScore * 100)}%**\n`);
+      }
+      if (metrics.downloadCount30Days !== undefined) {
+        tooltip.appendMarkdown(`• Downloads (30 days): **${formatCount(metrics.downloadCount30Days)}**\n`);
+      }
+      tooltip.appendMarkdown(`\n`);
+    }
     
     // Description if available
     if (dep.description) {
@@ -600,11 +856,43 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
     // Quick actions
     tooltip.appendMarkdown(`🔗 **Quick Actions:**\n`);
     tooltip.appendMarkdown(`• Click to view package actions\n`);
-    tooltip.appendMarkdown(`• [View on pub.dev](https://pub.dev/packages/${dep.name})\n`);
+    if (dep.spec.source === 'hosted' && !dep.spec.url) {
+      tooltip.appendMarkdown(`• [View on pub.dev](https://pub.dev/packages/${dep.name})\n`);
+    }
 
     return tooltip;
   }
 
+  private appendSourceTooltip(tooltip: vscode.MarkdownString, dep: DependencyInfo): void {
+    const spec = dep.spec;
+    switch (spec.source) {
+      case 'git':
+        tooltip.appendMarkdown(`🔀 **Git Source:**\n`);
+        tooltip.appendMarkdown(`• Repository: ${spec.url || '-'}\n`);
+        tooltip.appendMarkdown(`• Ref: \`${spec.ref || 'default branch'}\`\n`);
+        if (spec.path) {
+          tooltip.appendMarkdown(`• Path: \`${spec.path}\`\n`);
+        }
+        break;
+      case 'path':
+        tooltip.appendMarkdown(`📁 **Local Source:**\n`);
+        tooltip.appendMarkdown(`• Path: \`${spec.path}\`\n`);
+        break;
+      case 'sdk':
+        tooltip.appendMarkdown(`🧰 **SDK Source:**\n`);
+        tooltip.appendMarkdown(`• Bundled with the ${spec.sdk} SDK\n`);
+        break;
+      default:
+        if (!spec.url) {
+          return;
+        }
+        tooltip.appendMarkdown(`🏢 **Hosted Source:**\n`);
+        tooltip.appendMarkdown(`• Server: ${spec.url}\n`);
+        break;
+    }
+    tooltip.appendMarkdown(`\n`);
+  }
+
   private createDependencyTooltip(dep: DependencyInfo): string {
     let tooltip = `${dep.name}\n`;
     tooltip += `Current: ${dep.version}\n`;
@@ -629,9 +917,9 @@ export class DependencyTreeProvider implements vscode.TreeDataProvider<TreeItem>
 
 class TreeItem extends vscode.TreeItem {
   constructor(
-    public readonly label: string,
+    public label: string,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-    public readonly type: 'project' | 'category' | 'dependency' | 'updates' | 'info' | 'health' | 'filters' | 'search' | 'filter' | 'sort' | 'filter-status'
+    public readonly type: 'project' | 'category' | 'dependency' | 'transitive' | 'updates' | 'info' | 'offline' | 'health' | 'filters' | 'search' | 'filter' | 'sort' | 'filter-status'
   ) {
     super(label, collapsibleState);
   }
@@ -639,4 +927,5 @@ class TreeItem extends vscode.TreeItem {
   projectPath?: string;
   isDev?: boolean;
   dependency?: DependencyInfo;
+  node?: DependencyNode;
 } 
\ No newline at end of file
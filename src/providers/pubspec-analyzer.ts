@@ -1,16 +1,52 @@
 import * as vscode from 'vscode';
 import * as yaml from 'yaml';
+import * as path from 'path';
 import { PubApiService } from '../services/pub-api-service';
 import { WorkspaceService } from '../services/workspace-service';
+import { DependencyKind, DependencySource, DependencySpec, PubPackageScore, PubspecLock, SdkEnvironment } from '../types/pub-types';
+import { compareVersionStrings, findNearestVersion, isVersionOutdated, VersionConstraint } from '../utils/dart-semver';
+import { describeDependencySpec, isHostedSpec, parseDependencySpec } from '../utils/dependency-spec';
 
 export interface PackageAnalysis {
   name: string;
+  constraint: string;
   currentVersion: string;
-  latestVersion: string;
+  upgradableVersion?: string;
+  resolvableVersion?: string;
+  latestVersion?: string;
+  /** Newest version outside the constraint that the project's SDK can use */
+  suggestedVersion?: string;
+  /** What the latest version needs beyond the project's SDK */
+  latestRequires?: string;
   isOutdated: boolean;
+  isUpgradable: boolean;
+  lockedVersion?: string;
+  source?: DependencySource;
+  kind?: DependencyKind;
+  spec: DependencySpec;
+  hasLockfile: boolean;
   isDev: boolean;
   range: vscode.Range;
   description?: string;
+  /** Pub points, likes and popularity, pub.dev packages only */
+  metrics?: PubPackageScore;
+  /** Locked version, or the one the constraint names, when it was retracted */
+  retractedVersion?: string;
+  /** Constraint that moves off the retracted version, for the quick fix */
+  retractionFix?: string;
+  /** No longer maintained by its publisher */
+  isDiscontinued?: boolean;
+  /** Package the publisher suggests instead */
+  replacedBy?: string;
+  /** README and CHANGELOG of the locked version in the pub cache */
+  readmePath?: string;
+  changelogPath?: string;
+}
+
+interface SectionContext {
+  lock: PubspecLock | null;
+  environment: SdkEnvironment;
+  dependencyConstraints: Record<string, string>;
 }
 
 export class PubspecAnalyzer {
@@ -43,6 +79,16 @@ export class PubspecAnalyzer {
       }
 
       const analyses: PackageAnalysis[] = [];
+      const context: SectionContext = {
+        lock: this.workspaceService.getLockfile(path.dirname(document.uri.fsPath)),
+        environment: await this.workspaceService.getSdkEnvironment({
+          path: path.dirname(document.uri.fsPath),
+          usesFlutter: this.workspaceService.usesFlutterSdk(pubspec),
+          sdkConstraint: typeof pubspec.environment?.sdk === 'string' ? pubspec.environment.sdk : undefined,
+          flutterConstraint: typeof pubspec.environment?.flutter === 'string' ? pubspec.environment.flutter : undefined
+        }),
+        dependencyConstraints: this.workspaceService.getDeclaredConstraints(pubspec)
+      };
       
       // Analizar dependencies regulares
       if (pubspec.dependencies) {
@@ -50,7 +96,8 @@ export class PubspecAnalyzer {
           document, 
           pubspec.dependencies, 
           'dependencies',
-          false
+          false,
+          context
         );
         analyses.push(...depAnalyses);
       }
@@ -61,7 +108,8 @@ export class PubspecAnalyzer {
           document, 
           pubspec.dev_dependencies, 
           'dev_dependencies',
-          true
+          true,
+          context
         );
         analyses.push(...devDepAnalyses);
       }
@@ -80,54 +128,105 @@ export class PubspecAnalyzer {
     document: vscode.TextDocument,
     dependencies: any,
     sectionName: string,
-    isDev: boolean
+    isDev: boolean,
+    context: SectionContext
   ): Promise<PackageAnalysis[]> {
-    const analyses: PackageAnalysis[] = [];
-    
-    for (const [packageName, versionConstraint] of Object.entries(dependencies)) {
-      // Saltar dependencias del SDK
-      if (packageName === 'flutter' || packageName === 'flutter_test') {
-        continue;
-      }
-
-      // Saltar dependencias que no son strings (ej: path, git)
-      if (typeof versionConstraint !== 'string') {
-        continue;
+    // Cada paquete se analiza en paralelo, el orden del pubspec se conserva
+    const entries = Object.entries<any>(dependencies);
+    const analyses = await Promise.all(entries.map(async ([packageName, value]): Promise<PackageAnalysis | null> => {
+      const spec = parseDependencySpec(value);
+      if (!spec) {
+        return null;
       }
 
       try {
-        const latestVersion = await this.pubApiService.getLatestVersion(packageName);
-        if (!latestVersion) {
-          continue;
-        }
-
-        const currentVersion = this.extractVersionFromConstraint(versionConstraint as string);
-        const isOutdated = latestVersion ? this.isVersionOutdated(currentVersion, latestVersion) : false;
-        
         const range = this.findPackageRange(document, packageName, sectionName);
         if (!range) {
-          continue;
+          return null;
         }
 
-        const packageDetails = await this.pubApiService.getPackageDetails(packageName);
-        
+        const locked = context.lock?.packages[packageName];
         const analysis: PackageAnalysis = {
           name: packageName,
-          currentVersion,
-          latestVersion,
-          isOutdated,
+          constraint: spec.constraint || describeDependencySpec(spec),
+          currentVersion: locked?.version || spec.constraint || '-',
+          isOutdated: false,
+          isUpgradable: false,
+          lockedVersion: locked?.version,
+          source: locked?.source,
+          kind: locked?.dependency,
+          spec,
+          hasLockfile: Boolean(context.lock),
           isDev,
-          range,
-          description: packageDetails?.latest?.pubspec?.description
+          range
         };
 
-        analyses.push(analysis);
+        // git, path and sdk dependencies have no published versions to compare
+        if (isHostedSpec(spec)) {
+          const versionConstraint = analysis.constraint;
+          const columns = await this.pubApiService.getVersionColumns(packageName, versionConstraint, {
+            ...context.environment,
+            lockedVersion: locked?.version,
+            dependencyConstraints: context.dependencyConstraints,
+            hostedUrl: spec.url
+          });
+          const latestVersion = columns.latest;
+          if (!latestVersion) {
+            return null;
+          }
+
+          const currentVersion = columns.current || this.extractVersionFromConstraint(versionConstraint);
+          const packageDetails = await this.pubApiService.getPackageDetailsWithMetrics(packageName, spec.url);
+
+          analysis.currentVersion = currentVersion;
+          analysis.upgradableVersion = columns.upgradable;
+          analysis.resolvableVersion = columns.resolvable;
+          analysis.latestVersion = latestVersion;
+          analysis.isOutdated = isVersionOutdated(versionConstraint, latestVersion);
+          // Sugerir la versión más nueva compatible con el SDK, no siempre la última
+          if (columns.resolvable && isVersionOutdated(versionConstraint, columns.resolvable)) {
+            analysis.suggestedVersion = columns.resolvable;
+          } else if (analysis.isOutdated && !columns.latestRequires) {
+            analysis.suggestedVersion = latestVersion;
+          }
+          analysis.latestRequires = columns.latestRequires;
+          analysis.isUpgradable = Boolean(columns.upgradable) &&
+            compareVersionStrings(columns.upgradable!, currentVersion) > 0;
+          analysis.description = packageDetails?.latest?.pubspec?.description;
+          analysis.metrics = packageDetails?.metrics?.score;
+          analysis.isDiscontinued = packageDetails?.isDiscontinued === true;
+          analysis.replacedBy = packageDetails?.replacedBy;
+
+          // Versiones retiradas por el autor: avisar si la bloqueada o la del constraint lo está
+          const versions = packageDetails?.versions || [];
+          const pinnedVersion = locked?.version || this.extractVersionFromConstraint(versionConstraint);
+          if (versions.some(v => v.version === pinnedVersion && v.retracted)) {
+            const replacement = findNearestVersion(
+              pinnedVersion,
+              versions.filter(v => !v.retracted).map(v => v.version)
+            );
+            analysis.retractedVersion = pinnedVersion;
+            // Hacia arriba basta con ^; hacia abajo hay que fijar la versión exacta
+            analysis.retractionFix = replacement && compareVersionStrings(replacement, pinnedVersion) > 0
+              ? `^${replacement}`
+              : replacement;
+          }
+
+          if (locked?.version) {
+            const documents = this.pubApiService.getLocalDocuments(packageName, locked.version, spec.url);
+            analysis.readmePath = documents.readme;
+            analysis.changelogPath = documents.changelog;
+          }
+        }
+
+        return analysis;
       } catch (error) {
         console.error(`Error analyzing package ${packageName}:`, error);
+        return null;
       }
-    }
+    }));
 
-    return analyses;
+    return analyses.filter((analysis): analysis is PackageAnalysis => analysis !== null);
   }
 
   private findPackageRange(
@@ -182,45 +281,50 @@ export class PubspecAnalyzer {
     return match ? match[0] : (constraint.trim() || '1.0.0');
   }
 
-  private isVersionOutdated(currentVersion: string, latestVersion: string): boolean {
-    if (!currentVersion || !latestVersion) {
-      return false;
-    }
-    
-    // Comparación simple de versiones
-    const cleanCurrent = currentVersion.replace(/[^0-9.]/g, '');
-    const cleanLatest = latestVersion.replace(/[^0-9.]/g, '');
-    
-    if (!cleanCurrent || !cleanLatest) {
-      return false;
-    }
-    
-    const currentParts = cleanCurrent.split('.').map(Number);
-    const latestParts = cleanLatest.split('.').map(Number);
-    
-    for (let i = 0; i < Math.max(currentParts.length, latestParts.length); i++) {
-      const current = currentParts[i] || 0;
-      const latest = latestParts[i] || 0;
-      
-      if (latest > current) {
-        return true;
-      }
-      if (current > latest) {
-        return false;
-      }
-    }
-    
-    return false;
-  }
-
   private updateDiagnostics(document: vscode.TextDocument, analyses: PackageAnalysis[]): void {
     const diagnostics: vscode.Diagnostic[] = [];
 
     for (const analysis of analyses) {
-      if (analysis.isOutdated) {
+      if (analysis.retractedVersion) {
+        const diagnostic = new vscode.Diagnostic(
+          analysis.range,
+          `Version ${analysis.retractedVersion} of '${analysis.name}' was retracted by its publisher` +
+            (analysis.retractionFix ? `. Move to '${analysis.retractionFix}'.` : ' and has no published replacement.'),
+          vscode.DiagnosticSeverity.Warning
+        );
+
+        diagnostic.code = 'package-version-retracted';
+        diagnostic.source = 'Smart Pub Manager';
+
+        diagnostics.push(diagnostic);
+      }
+
+      if (analysis.isDiscontinued) {
         const diagnostic = new vscode.Diagnostic(
           analysis.range,
-          `Package '${analysis.name}' has an update available: ${analysis.currentVersion} → ${analysis.latestVersion}`,
+          `Package '${analysis.name}' is discontinued` +
+            (analysis.replacedBy ? ` and replaced by '${analysis.replacedBy}'.` : '.'),
+          vscode.DiagnosticSeverity.Warning
+        );
+
+        diagnostic.code = 'package-discontinued';
+        diagnostic.source = 'Smart Pub Manager';
+
+        diagnostics.push(diagnostic);
+      }
+
+      const lockDiagnostic = this.createLockDiagnostic(analysis);
+      if (lockDiagnostic) {
+        diagnostics.push(lockDiagnostic);
+      }
+
+      if (analysis.isOutdated && analysis.suggestedVersion) {
+        const sdkNote = analysis.suggestedVersion !== analysis.latestVersion && analysis.latestRequires
+          ? `. Latest ${analysis.latestVersion} needs ${analysis.latestRequires}`
+          : '';
+        const diagnostic = new vscode.Diagnostic(
+          analysis.range,
+          `Package '${analysis.name}' has an update available: ${analysis.currentVersion} → ${analysis.suggestedVersion} (${this.formatVersionColumns(analysis)})${sdkNote}`,
           vscode.DiagnosticSeverity.Information
         );
         
@@ -228,6 +332,28 @@ export class PubspecAnalyzer {
         diagnostic.source = 'Smart Pub Manager';
         diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
         
+        diagnostics.push(diagnostic);
+      } else if (analysis.isOutdated && analysis.latestRequires) {
+        const diagnostic = new vscode.Diagnostic(
+          analysis.range,
+          `Package '${analysis.name}' ${analysis.latestVersion} needs ${analysis.latestRequires}; no newer version fits the project's SDK`,
+          vscode.DiagnosticSeverity.Information
+        );
+
+        diagnostic.code = 'package-update-needs-sdk';
+        diagnostic.source = 'Smart Pub Manager';
+
+        diagnostics.push(diagnostic);
+      } else if (analysis.isUpgradable) {
+        const diagnostic = new vscode.Diagnostic(
+          analysis.range,
+          `Package '${analysis.name}' can be upgraded to ${analysis.upgradableVersion} without changing '${analysis.constraint}' (${this.formatVersionColumns(analysis)})`,
+          vscode.DiagnosticSeverity.Hint
+        );
+
+        diagnostic.code = 'package-upgradable';
+        diagnostic.source = 'Smart Pub Manager';
+
         diagnostics.push(diagnostic);
       }
     }
@@ -235,6 +361,40 @@ export class PubspecAnalyzer {
     this.diagnosticCollection.set(document.uri, diagnostics);
   }
 
+  private createLockDiagnostic(analysis: PackageAnalysis): vscode.Diagnostic | null {
+    if (!analysis.hasLockfile) {
+      return null;
+    }
+
+    let message: string | null = null;
+    let code = '';
+    if (!analysis.lockedVersion) {
+      message = `Package '${analysis.name}' is not in pubspec.lock. Run pub get to resolve it.`;
+      code = 'package-not-locked';
+    } else if (VersionConstraint.parse(analysis.constraint)?.allows(analysis.lockedVersion) === false) {
+      message = `Locked version ${analysis.lockedVersion} of '${analysis.name}' does not satisfy '${analysis.constraint}'. Run pub get to update pubspec.lock.`;
+      code = 'lockfile-out-of-date';
+    }
+
+    if (!message) {
+      return null;
+    }
+
+    const diagnostic = new vscode.Diagnostic(analysis.range, message, vscode.DiagnosticSeverity.Warning);
+    diagnostic.code = code;
+    diagnostic.source = 'Smart Pub Manager';
+    return diagnostic;
+  }
+
+  private formatVersionColumns(analysis: PackageAnalysis): string {
+    return [
+      `current ${analysis.currentVersion}`,
+      `upgradable ${analysis.upgradableVersion || '-'}`,
+      `resolvable ${analysis.resolvableVersion || '-'}`,
+      `latest ${analysis.latestVersion || '-'}`
+    ].join(', ');
+  }
+
   private isPubspecFile(document: vscode.TextDocument): boolean {
     return document.fileName.endsWith('pubspec.yaml');
   }
@@ -250,6 +410,10 @@ export class PubspecAnalyzer {
     return analyses.find(analysis => analysis.range.contains(position));
   }
 
+  public clearCache(): void {
+    this.analysisCache.clear();
+  }
+
   public dispose(): void {
     this.diagnosticCollection.dispose();
     this.analysisCache.clear();
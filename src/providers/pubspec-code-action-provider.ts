@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { PubspecAnalyzer, PackageAnalysis } from './pubspec-analyzer';
 import { WorkspaceService } from '../services/workspace-service';
 import * as path from 'path';
+import { setDependencyEdits } from '../utils/pubspec-editor';
 
 export class PubspecCodeActionProvider implements vscode.CodeActionProvider {
   constructor(
@@ -27,13 +28,33 @@ export class PubspecCodeActionProvider implements vscode.CodeActionProvider {
         const packageActions = await this.createPackageUpdateActions(document, diagnostic);
         actions.push(...packageActions);
       }
+      if (diagnostic.source === 'Smart Pub Manager' && diagnostic.code === 'package-update-needs-sdk') {
+        // Solo se llega a la última versión subiendo el SDK
+        const sdkAction = new vscode.CodeAction('Update SDK constraints...', vscode.CodeActionKind.QuickFix);
+        sdkAction.command = {
+          title: 'Update SDK constraints',
+          command: 'smartPub.updateSdkConstraints',
+          arguments: [path.dirname(document.uri.fsPath)]
+        };
+        sdkAction.diagnostics = [diagnostic];
+        actions.push(sdkAction);
+      }
+      if (diagnostic.source === 'Smart Pub Manager' && diagnostic.code === 'package-discontinued') {
+        actions.push(...this.createDiscontinuedActions(document, diagnostic));
+      }
+      if (diagnostic.source === 'Smart Pub Manager' && diagnostic.code === 'package-version-retracted') {
+        const retractionAction = this.createRetractionAction(document, diagnostic);
+        if (retractionAction) {
+          actions.push(retractionAction);
+        }
+      }
     }
 
     // También revisar si hay análisis disponible para la posición actual
     const position = range instanceof vscode.Selection ? range.active : range.start;
     const analysis = this.pubspecAnalyzer.getAnalysisForPosition(document, position);
     
-    if (analysis && analysis.isOutdated) {
+    if (analysis && analysis.isOutdated && analysis.suggestedVersion) {
       const additionalActions = await this.createPackageUpdateActions(document, undefined, analysis);
       // Evitar duplicados
       for (const action of additionalActions) {
@@ -58,16 +79,21 @@ export class PubspecCodeActionProvider implements vscode.CodeActionProvider {
       analysis = this.pubspecAnalyzer.getAnalysisForPosition(document, diagnostic.range.start);
     }
 
-    if (!analysis) {
+    if (!analysis || !analysis.suggestedVersion) {
       return actions;
     }
+    // La versión más nueva que el SDK del proyecto admite
+    const latestVersion = analysis.suggestedVersion;
+    const sdkNote = latestVersion !== analysis.latestVersion && analysis.latestRequires
+      ? ` (${analysis.latestVersion} needs ${analysis.latestRequires})`
+      : '';
 
-    // Acción para actualizar a la última versión
+    // Acción para actualizar a la última versión compatible
     const updateToLatestAction = new vscode.CodeAction(
-      `Update ${analysis.name} to ${analysis.latestVersion}`,
+      `Update ${analysis.name} to ${latestVersion}${sdkNote}`,
       vscode.CodeActionKind.QuickFix
     );
-    updateToLatestAction.edit = this.createUpdateEdit(document, analysis, analysis.latestVersion);
+    updateToLatestAction.edit = this.createUpdateEdit(document, analysis, latestVersion);
     updateToLatestAction.isPreferred = true;
     if (diagnostic) {
       updateToLatestAction.diagnostics = [diagnostic];
@@ -75,8 +101,8 @@ export class PubspecCodeActionProvider implements vscode.CodeActionProvider {
     actions.push(updateToLatestAction);
 
     // Acción para actualizar usando compatible version (^version)
-    const compatibleVersion = `^${analysis.latestVersion}`;
-    if (compatibleVersion !== analysis.latestVersion) {
+    const compatibleVersion = `^${latestVersion}`;
+    if (compatibleVersion !== latestVersion) {
       const updateCompatibleAction = new vscode.CodeAction(
         `Update ${analysis.name} to ${compatibleVersion} (compatible)`,
         vscode.CodeActionKind.QuickFix
@@ -115,44 +141,89 @@ export class PubspecCodeActionProvider implements vscode.CodeActionProvider {
     return actions;
   }
 
+  private createRetractionAction(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction | null {
+    const analysis = this.pubspecAnalyzer.getAnalysisForPosition(document, diagnostic.range.start);
+    if (!analysis?.retractionFix) {
+      return null;
+    }
+
+    // Pasar a la versión no retirada más cercana
+    const action = new vscode.CodeAction(
+      `Move ${analysis.name} off retracted ${analysis.retractedVersion} to ${analysis.retractionFix}`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.edit = this.createUpdateEdit(document, analysis, analysis.retractionFix);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    return action;
+  }
+
+  private createDiscontinuedActions(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction[] {
+    const analysis = this.pubspecAnalyzer.getAnalysisForPosition(document, diagnostic.range.start);
+    if (!analysis) {
+      return [];
+    }
+
+    // El reemplazo pasa por pub get, por eso es un comando y no un edit
+    const target = {
+      projectPath: path.dirname(document.uri.fsPath),
+      dependency: { name: analysis.name, isDev: analysis.isDev, spec: analysis.spec, replacedBy: analysis.replacedBy }
+    };
+    const actions: vscode.CodeAction[] = [];
+
+    if (analysis.replacedBy) {
+      const replaceAction = new vscode.CodeAction(
+        `Replace ${analysis.name} with ${analysis.replacedBy}`,
+        vscode.CodeActionKind.QuickFix
+      );
+      replaceAction.command = {
+        title: 'Replace discontinued package',
+        command: 'smartPub.replaceDiscontinuedPackage',
+        arguments: [target]
+      };
+      replaceAction.diagnostics = [diagnostic];
+      replaceAction.isPreferred = true;
+      actions.push(replaceAction);
+    }
+
+    const findImportsAction = new vscode.CodeAction(
+      `Find Dart files importing ${analysis.name}`,
+      vscode.CodeActionKind.QuickFix
+    );
+    findImportsAction.command = {
+      title: 'Find package imports',
+      command: 'smartPub.findPackageImports',
+      arguments: [target]
+    };
+    findImportsAction.diagnostics = [diagnostic];
+    actions.push(findImportsAction);
+
+    return actions;
+  }
+
   private createUpdateEdit(
     document: vscode.TextDocument,
     analysis: PackageAnalysis,
     newVersion: string
   ): vscode.WorkspaceEdit {
     const edit = new vscode.WorkspaceEdit();
+    const section = analysis.isDev ? 'dev_dependencies' : 'dependencies';
     
-    // Encontrar el rango exacto de la versión para reemplazar
-    const line = document.lineAt(analysis.range.start.line);
-    const lineText = line.text;
-    
-    // Buscar la versión en la línea
-    const versionMatch = lineText.match(/:\s*(.+)$/);
-    if (versionMatch) {
-      const versionStart = lineText.indexOf(versionMatch[1]);
-      const versionEnd = versionStart + versionMatch[1].length;
-      
-      const versionRange = new vscode.Range(
-        analysis.range.start.line,
-        versionStart,
-        analysis.range.start.line,
-        versionEnd
+    // Solo se toca el valor de la entrada; comillas y comentarios se mantienen
+    for (const change of setDependencyEdits(document.getText(), section, analysis.name, newVersion)) {
+      const range = new vscode.Range(
+        document.positionAt(change.offset),
+        document.positionAt(change.offset + change.length)
       );
-      
-      // Preservar el formato original (quotes, etc.)
-      let newVersionText = newVersion;
-      const originalVersion = versionMatch[1].trim();
-      
-      // Si la versión original tenía quotes, mantenerlas
-      if (originalVersion.startsWith('"') && originalVersion.endsWith('"')) {
-        newVersionText = `"${newVersion}"`;
-      } else if (originalVersion.startsWith("'") && originalVersion.endsWith("'")) {
-        newVersionText = `'${newVersion}'`;
-      }
-      
-      edit.replace(document.uri, versionRange, newVersionText);
+      edit.replace(document.uri, range, change.newText);
     }
     
     return edit;
   }
-} 
\ No newline at end of file
+}
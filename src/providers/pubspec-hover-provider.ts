@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { PubspecAnalyzer, PackageAnalysis } from './pubspec-analyzer';
+import { describePackageScore } from '../utils/package-score';
 
 export class PubspecHoverProvider implements vscode.HoverProvider {
   constructor(private pubspecAnalyzer: PubspecAnalyzer) {}
@@ -18,11 +20,11 @@ export class PubspecHoverProvider implements vscode.HoverProvider {
       return undefined;
     }
 
-    const markdown = this.createHoverMarkdown(analysis);
+    const markdown = this.createHoverMarkdown(analysis, document.uri.fsPath);
     return new vscode.Hover(markdown, analysis.range);
   }
 
-  private createHoverMarkdown(analysis: PackageAnalysis): vscode.MarkdownString {
+  private createHoverMarkdown(analysis: PackageAnalysis, documentPath: string): vscode.MarkdownString {
     const markdown = new vscode.MarkdownString();
     markdown.isTrusted = true;
     markdown.supportHtml = true;
@@ -31,48 +33,151 @@ export class PubspecHoverProvider implements vscode.HoverProvider {
     markdown.appendMarkdown(`### 📦 ${analysis.name}\n\n`);
 
     // Información de versiones
-    if (analysis.isOutdated) {
-      markdown.appendMarkdown(`**🔄 Update Available**\n\n`);
-      markdown.appendMarkdown(`- **Current:** \`${analysis.currentVersion}\`\n`);
-      markdown.appendMarkdown(`- **Latest:** \`${analysis.latestVersion}\` ✨\n\n`);
+    if (analysis.spec.source !== 'hosted') {
+      markdown.appendMarkdown(this.createSourceMarkdown(analysis));
     } else {
-      markdown.appendMarkdown(`**✅ Up to date**\n\n`);
-      markdown.appendMarkdown(`- **Version:** \`${analysis.currentVersion}\`\n\n`);
+      if (analysis.isOutdated) {
+        markdown.appendMarkdown(`**🔄 Update Available**\n\n`);
+      } else if (analysis.isUpgradable) {
+        markdown.appendMarkdown(`**⬆️ Upgradable within \`${analysis.constraint}\`**\n\n`);
+      } else {
+        markdown.appendMarkdown(`**✅ Up to date**\n\n`);
+      }
+
+      markdown.appendMarkdown(`| Current | Upgradable | Resolvable | Latest |\n`);
+      markdown.appendMarkdown(`|---|---|---|---|\n`);
+      markdown.appendMarkdown(
+        `| \`${analysis.currentVersion}\` | \`${analysis.upgradableVersion || '-'}\` | ` +
+        `\`${analysis.resolvableVersion || '-'}\` | \`${analysis.latestVersion || '-'}\` |\n\n`
+      );
+
+      // La última versión pide un SDK más nuevo que el del proyecto
+      if (analysis.isOutdated && analysis.latestRequires) {
+        markdown.appendMarkdown(`**SDK bump needed:** \`${analysis.latestVersion}\` needs ${analysis.latestRequires}` +
+          (analysis.suggestedVersion ? `, newest compatible is \`${analysis.suggestedVersion}\`` : '') + `\n\n`);
+      }
+
+      if (analysis.spec.url) {
+        markdown.appendMarkdown(`**Hosted on:** ${analysis.spec.url}\n\n`);
+      }
     }
 
     // Tipo de dependencia
     const depType = analysis.isDev ? 'Dev Dependency' : 'Dependency';
     markdown.appendMarkdown(`**Type:** ${depType}\n\n`);
 
+    // Información del pubspec.lock
+    if (analysis.lockedVersion) {
+      markdown.appendMarkdown(`**Resolved:** \`${analysis.lockedVersion}\` from ${analysis.source} (${analysis.kind})\n\n`);
+    } else if (analysis.hasLockfile) {
+      markdown.appendMarkdown(`**Resolved:** not in pubspec.lock, run \`pub get\`\n\n`);
+    }
+
+    // Paquete discontinuado y su reemplazo sugerido
+    if (analysis.isDiscontinued) {
+      markdown.appendMarkdown(`**🚫 Discontinued:** no longer maintained` +
+        (analysis.replacedBy ? `, replaced by \`${analysis.replacedBy}\`` : '') + `\n\n`);
+    }
+
+    // Versión retirada por el autor
+    if (analysis.retractedVersion) {
+      markdown.appendMarkdown(`**⛔ Retracted:** \`${analysis.retractedVersion}\` was withdrawn by its publisher` +
+        (analysis.retractionFix ? `, move to \`${analysis.retractionFix}\`` : '') + `\n\n`);
+    }
+
     // Descripción si está disponible
     if (analysis.description) {
       markdown.appendMarkdown(`**Description:** ${analysis.description}\n\n`);
     }
 
-    // Enlaces útiles
-    markdown.appendMarkdown(`**Links:**\n`);
-    markdown.appendMarkdown(`- [View on pub.dev](https://pub.dev/packages/${analysis.name})\n`);
-    markdown.appendMarkdown(`- [Documentation](https://pub.dev/documentation/${analysis.name}/latest/)\n`);
-    markdown.appendMarkdown(`- [Changelog](https://pub.dev/packages/${analysis.name}/changelog)\n\n`);
+    // Métricas de calidad de pub.dev
+    if (analysis.metrics) {
+      const summary = describePackageScore(analysis.metrics);
+      if (summary) {
+        markdown.appendMarkdown(`**Quality:** ${summary}\n\n`);
+      }
+    }
+
+    // Enlaces útiles: pub.dev y los archivos de la versión descargada en el pub cache
+    const links: string[] = [];
+    if (analysis.spec.source === 'hosted' && !analysis.spec.url) {
+      links.push(`- [View on pub.dev](https://pub.dev/packages/${analysis.name})`);
+      links.push(`- [Documentation](https://pub.dev/documentation/${analysis.name}/latest/)`);
+      links.push(`- [Changelog](https://pub.dev/packages/${analysis.name}/changelog)`);
+    }
+    if (analysis.readmePath) {
+      links.push(`- [Local README (${analysis.lockedVersion})](${vscode.Uri.file(analysis.readmePath)})`);
+    }
+    if (analysis.changelogPath) {
+      links.push(`- [Local CHANGELOG (${analysis.lockedVersion})](${vscode.Uri.file(analysis.changelogPath)})`);
+    }
+    if (links.length > 0) {
+      markdown.appendMarkdown(`**Links:**\n${links.join('\n')}\n\n`);
+    }
 
-    // Acciones rápidas si está desactualizado
-    if (analysis.isOutdated) {
+    // Acciones rápidas si está desactualizado o se puede elegir otra versión
+    const isHosted = analysis.spec.source === 'hosted';
+    if (analysis.isOutdated || isHosted) {
       markdown.appendMarkdown(`---\n\n`);
       markdown.appendMarkdown(`**Quick Actions:**\n`);
-      
+    }
+
+    if (analysis.suggestedVersion) {
       // Comando para actualizar (esto se conectará con code actions)
       const updateCommand = vscode.Uri.parse(
         `command:smartPub.updatePackage?${encodeURIComponent(JSON.stringify({
           packageName: analysis.name,
-          newVersion: analysis.latestVersion,
+          newVersion: analysis.suggestedVersion,
           isDev: analysis.isDev,
           documentUri: vscode.window.activeTextEditor?.document.uri.toString()
         }))}`
       );
       
-      markdown.appendMarkdown(`[🔄 Update to ${analysis.latestVersion}](${updateCommand})\n`);
+      markdown.appendMarkdown(`[🔄 Update to ${analysis.suggestedVersion}](${updateCommand})\n`);
+    }
+
+    // Historial completo de versiones con compatibilidad de SDK
+    if (isHosted) {
+      const chooseCommand = vscode.Uri.parse(
+        `command:smartPub.chooseVersion?${encodeURIComponent(JSON.stringify({
+          projectPath: path.dirname(documentPath),
+          dependency: { name: analysis.name }
+        }))}`
+      );
+
+      markdown.appendMarkdown(`${analysis.suggestedVersion ? ' • ' : ''}[🗂️ Choose version...](${chooseCommand})\n`);
     }
 
     return markdown;
   }
+
+  private createSourceMarkdown(analysis: PackageAnalysis): string {
+    const spec = analysis.spec;
+    const lines: string[] = [];
+
+    switch (spec.source) {
+      case 'git':
+        lines.push(`**🔀 Git dependency**`);
+        lines.push(`**Repository:** ${spec.url || '-'}`);
+        lines.push(`**Ref:** \`${spec.ref || 'default branch'}\``);
+        if (spec.path) {
+          lines.push(`**Path:** \`${spec.path}\``);
+        }
+        break;
+      case 'path':
+        lines.push(`**📁 Local path dependency**`);
+        lines.push(`**Path:** \`${spec.path}\``);
+        break;
+      case 'sdk':
+        lines.push(`**🧰 SDK dependency**`);
+        lines.push(`**SDK:** ${spec.sdk}`);
+        break;
+    }
+
+    if (spec.constraint) {
+      lines.push(`**Constraint:** \`${spec.constraint}\``);
+    }
+
+    return lines.join('\n\n') + '\n\n';
+  }
 } 
\ No newline at end of file
@@ -1,58 +1,224 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
 import { CacheEntry } from '../types/pub-types';
 
+interface CacheIndexEntry {
+  file: string;
+  size: number;
+  timestamp: number;
+  expiresAt: number;
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  /** Part of the key before the first `:`, e.g. `package` or `search` */
+  kind: string;
+  /** Bytes on disk */
+  size: number;
+  timestamp: number;
+  expiresAt: number;
+}
+
+/**
+ * Disk cache under the extension's global storage. Each entry is a JSON file;
+ * `index.json` keeps the entries in least recently used order so the cache
+ * can be held to the `smartPub.cacheMaxSize` budget. Keys are written as
+ * `<kind>:<rest>` so entries can be listed and purged by kind.
+ */
 export class CacheService {
-  private cache: Map<string, CacheEntry<any>> = new Map();
-  private readonly context: vscode.ExtensionContext;
+  private static readonly indexFile = 'index.json';
+  /** Delay before the index is written, so a burst of sets writes it once */
+  private static readonly indexSaveDelayMs = 2000;
+
+  private readonly cacheDir: string;
+  /** Least recently used first */
+  private index: Map<string, CacheIndexEntry> = new Map();
+  private totalSize = 0;
+  private saveTimer: NodeJS.Timeout | undefined;
+  private readonly revalidating = new Set<string>();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
 
   constructor(context: vscode.ExtensionContext) {
-    this.context = context;
-    this.loadCacheFromStorage();
+    this.cacheDir = path.join(context.globalStorageUri.fsPath, 'cache');
+    this.loadIndex();
+
+    // Older versions kept the whole cache in globalState
+    if (context.globalState.get('smartPubCache') !== undefined) {
+      context.globalState.update('smartPubCache', undefined);
+    }
   }
 
   public get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
+    const entry = this.getEntry<T>(key);
+    if (!entry || Date.now() > entry.expiresAt) {
+      return null;
+    }
+    return entry.data;
+  }
+
+  /**
+   * The stored entry, expired or not, with its validators.
+   */
+  public getEntry<T>(key: string): CacheEntry<T> | null {
+    const indexEntry = this.index.get(key);
+    if (!indexEntry) {
       return null;
     }
 
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      this.saveCacheToStorage();
+    try {
+      const stored = JSON.parse(fs.readFileSync(path.join(this.cacheDir, indexEntry.file), 'utf8'));
+      if (stored.key !== key) {
+        throw new Error('cache file belongs to another key');
+      }
+
+      // Move to the most recently used end
+      this.index.delete(key);
+      this.index.set(key, indexEntry);
+      this.scheduleIndexSave();
+
+      return {
+        data: stored.data,
+        timestamp: stored.timestamp,
+        expiresAt: stored.expiresAt,
+        etag: stored.etag,
+        lastModified: stored.lastModified
+      };
+    } catch (error) {
+      console.warn(`Dropping unreadable cache entry ${key}:`, error);
+      this.delete(key);
+      return null;
+    }
+  }
+
+  /**
+   * Stale-while-revalidate: expired entries are still returned, and
+   * `revalidate` runs in the background to refresh them (once per key at a
+   * time). `revalidate` is expected to `set` the new value itself.
+   */
+  public getWithRevalidation<T>(key: string, revalidate: () => Promise<unknown>): T | null {
+    const entry = this.getEntry<T>(key);
+    if (!entry) {
       return null;
     }
 
-    return entry.data as T;
+    if (Date.now() > entry.expiresAt && !this.revalidating.has(key)) {
+      this.revalidating.add(key);
+      revalidate()
+        .catch(error => console.warn(`Failed to revalidate cache entry ${key}:`, error))
+        .finally(() => this.revalidating.delete(key));
+    }
+
+    return entry.data;
   }
 
-  public set<T>(key: string, data: T, expirationSeconds?: number): void {
+  public set<T>(
+    key: string,
+    data: T,
+    expirationSeconds?: number,
+    validators: Pick<CacheEntry<T>, 'etag' | 'lastModified'> = {}
+  ): void {
     const config = vscode.workspace.getConfiguration('smartPub');
     const defaultExpiration = config.get<number>('cacheExpiration', 3600);
     const expiration = expirationSeconds || defaultExpiration;
-    
+
     const entry: CacheEntry<T> = {
       data,
       timestamp: Date.now(),
-      expiresAt: Date.now() + (expiration * 1000)
+      expiresAt: Date.now() + (expiration * 1000),
+      etag: validators.etag,
+      lastModified: validators.lastModified
     };
 
-    this.cache.set(key, entry);
-    this.saveCacheToStorage();
+    try {
+      const file = this.getFileName(key);
+      const content = JSON.stringify({ key, ...entry });
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.writeFileSync(path.join(this.cacheDir, file), content, 'utf8');
+
+      this.removeFromIndex(key);
+      const size = Buffer.byteLength(content);
+      this.index.set(key, { file, size, timestamp: entry.timestamp, expiresAt: entry.expiresAt });
+      this.totalSize += size;
+
+      this.evict();
+      this.scheduleIndexSave();
+      this._onDidChange.fire();
+    } catch (error) {
+      console.error(`Failed to write cache entry ${key}:`, error);
+    }
+  }
+
+  /**
+   * Starts a new lifetime for an entry the server confirmed is unchanged
+   * (HTTP 304), keeping its data and validators.
+   */
+  public renew(key: string, expirationSeconds?: number): void {
+    const entry = this.getEntry(key);
+    if (entry) {
+      this.set(key, entry.data, expirationSeconds, { etag: entry.etag, lastModified: entry.lastModified });
+    }
   }
 
   public has(key: string): boolean {
-    return this.get(key) !== null;
+    const entry = this.index.get(key);
+    return Boolean(entry) && Date.now() <= entry!.expiresAt;
   }
 
   public delete(key: string): void {
-    this.cache.delete(key);
-    this.saveCacheToStorage();
+    const entry = this.removeFromIndex(key);
+    if (entry) {
+      this.deleteFile(entry.file);
+      this.scheduleIndexSave();
+      this._onDidChange.fire();
+    }
   }
 
   public clear(): void {
-    this.cache.clear();
-    this.saveCacheToStorage();
+    for (const entry of this.index.values()) {
+      this.deleteFile(entry.file);
+    }
+    this.index.clear();
+    this.totalSize = 0;
+    this.saveIndex();
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Entries currently on disk, most recently used first.
+   */
+  public getEntries(): CacheEntryInfo[] {
+    return Array.from(this.index.entries())
+      .reverse()
+      .map(([key, entry]) => ({
+        key,
+        kind: this.getKind(key),
+        size: entry.size,
+        timestamp: entry.timestamp,
+        expiresAt: entry.expiresAt
+      }));
+  }
+
+  public getTotalSize(): number {
+    return this.totalSize;
+  }
+
+  /**
+   * Removes every entry of one kind and returns how many were removed.
+   */
+  public deleteKind(kind: string): number {
+    return this.deleteWhere((key) => this.getKind(key) === kind);
+  }
+
+  /**
+   * Removes entries fetched more than `ageMs` ago and returns how many were
+   * removed.
+   */
+  public deleteOlderThan(ageMs: number): number {
+    const cutoff = Date.now() - ageMs;
+    return this.deleteWhere((_key, entry) => entry.timestamp < cutoff);
   }
 
   public isEnabled(): boolean {
@@ -60,41 +226,120 @@ export class CacheService {
     return config.get<boolean>('enableCache', true);
   }
 
-  private loadCacheFromStorage(): void {
-    try {
-      const stored = this.context.globalState.get<Record<string, CacheEntry<any>>>('smartPubCache', {});
-      this.cache = new Map(Object.entries(stored));
-      
-      // Clean expired entries on load
-      this.cleanExpiredEntries();
-    } catch (error) {
-      console.error('Failed to load cache from storage:', error);
-      this.cache = new Map();
+  public dispose(): void {
+    if (this.saveTimer) {
+      this.saveIndex();
     }
+    this._onDidChange.dispose();
+  }
+
+  /**
+   * Drops least recently used entries until the cache fits its size budget.
+   */
+  private evict(): void {
+    const config = vscode.workspace.getConfiguration('smartPub');
+    const maxBytes = Math.max(1, config.get<number>('cacheMaxSize', 50)) * 1024 * 1024;
+
+    for (const [key, entry] of this.index) {
+      // Keep the newest entry even when it's larger than the budget on its own
+      if (this.totalSize <= maxBytes || this.index.size <= 1) {
+        break;
+      }
+      this.removeFromIndex(key);
+      this.deleteFile(entry.file);
+    }
+  }
+
+  private deleteWhere(predicate: (key: string, entry: CacheIndexEntry) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.index.entries())) {
+      if (predicate(key, entry)) {
+        this.removeFromIndex(key);
+        this.deleteFile(entry.file);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.saveIndex();
+      this._onDidChange.fire();
+    }
+    return removed;
+  }
+
+  private getKind(key: string): string {
+    const separator = key.indexOf(':');
+    return separator > 0 ? key.substring(0, separator) : key;
   }
 
-  private saveCacheToStorage(): void {
+  private removeFromIndex(key: string): CacheIndexEntry | undefined {
+    const entry = this.index.get(key);
+    if (entry) {
+      this.index.delete(key);
+      this.totalSize -= entry.size;
+    }
+    return entry;
+  }
+
+  private loadIndex(): void {
     try {
-      const cacheObject = Object.fromEntries(this.cache);
-      this.context.globalState.update('smartPubCache', cacheObject);
+      const indexPath = path.join(this.cacheDir, CacheService.indexFile);
+      const stored: Array<[string, CacheIndexEntry]> = fs.existsSync(indexPath)
+        ? JSON.parse(fs.readFileSync(indexPath, 'utf8'))
+        : [];
+
+      this.index = new Map(stored.filter(([, entry]) => fs.existsSync(path.join(this.cacheDir, entry.file))));
+      this.totalSize = Array.from(this.index.values()).reduce((total, entry) => total + entry.size, 0);
+
+      // Files the index doesn't know about, e.g. after a crash before it was saved
+      const known = new Set(Array.from(this.index.values()).map(entry => entry.file));
+      const files = fs.existsSync(this.cacheDir) ? fs.readdirSync(this.cacheDir) : [];
+      files
+        .filter(file => file !== CacheService.indexFile && !known.has(file))
+        .forEach(file => this.deleteFile(file));
+
+      this.evict();
     } catch (error) {
-      console.error('Failed to save cache to storage:', error);
+      console.error('Failed to load cache index:', error);
+      this.index = new Map();
+      this.totalSize = 0;
     }
   }
 
-  private cleanExpiredEntries(): void {
-    const now = Date.now();
-    let hasChanges = false;
+  private scheduleIndexSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => this.saveIndex(), CacheService.indexSaveDelayMs);
+  }
 
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
-        this.cache.delete(key);
-        hasChanges = true;
-      }
+  private saveIndex(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
     }
 
-    if (hasChanges) {
-      this.saveCacheToStorage();
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(this.cacheDir, CacheService.indexFile),
+        JSON.stringify(Array.from(this.index.entries())),
+        'utf8'
+      );
+    } catch (error) {
+      console.error('Failed to save cache index:', error);
     }
   }
-} 
\ No newline at end of file
+
+  private deleteFile(file: string): void {
+    try {
+      fs.rmSync(path.join(this.cacheDir, file), { force: true });
+    } catch (error) {
+      console.warn(`Failed to delete cache file ${file}:`, error);
+    }
+  }
+
+  private getFileName(key: string): string {
+    return `${crypto.createHash('sha1').update(key).digest('hex')}.json`;
+  }
+}
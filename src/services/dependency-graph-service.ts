@@ -0,0 +1,200 @@
+import * as path from 'path';
+import { DependencyNode, DependencyPathStep, LockedPackage, PubPackagePubspec } from '../types/pub-types';
+import { LockfileService } from './lockfile-service';
+import { PubApiService } from './pub-api-service';
+import { PubCacheService } from './pub-cache-service';
+
+export class DependencyGraphService {
+  private pubspecCache: Map<string, PubPackagePubspec | null> = new Map();
+
+  constructor(
+    private pubApiService: PubApiService,
+    private lockfileService: LockfileService,
+    private pubCacheService: PubCacheService
+  ) {}
+
+  /**
+   * Returns the dependencies (name → constraint) of the version of a package
+   * locked for the project.
+   */
+  public async getDependencies(projectPath: string, packageName: string): Promise<Record<string, string>> {
+    const locked = this.lockfileService.getPackage(projectPath, packageName);
+    if (!locked) {
+      return {};
+    }
+
+    const pubspec = await this.getLockedPubspec(projectPath, locked);
+    const dependencies: Record<string, string> = {};
+    for (const [name, value] of Object.entries<any>(pubspec?.dependencies || {})) {
+      dependencies[name] = this.describeConstraint(value);
+    }
+    return dependencies;
+  }
+
+  /**
+   * Builds the transitive dependency tree below a package. Packages already
+   * expanded elsewhere in the same tree are marked as repeated and not expanded
+   * again, like `dart pub deps` does. Leaves have nothing to collapse, so they
+   * are never marked.
+   */
+  public async buildSubtree(projectPath: string, packageName: string): Promise<DependencyNode> {
+    const lock = this.lockfileService.read(projectPath);
+    const expanded = new Set<string>();
+
+    const build = async (name: string, constraint?: string): Promise<DependencyNode> => {
+      const locked = lock?.packages[name];
+      const node: DependencyNode = {
+        name,
+        version: locked?.version,
+        constraint,
+        source: locked?.source,
+        children: [],
+        repeated: expanded.has(name)
+      };
+
+      if (node.repeated || !locked) {
+        return node;
+      }
+
+      const dependencies = await this.getDependencies(projectPath, name);
+      if (Object.keys(dependencies).length > 0) {
+        expanded.add(name);
+      }
+      for (const childName of Object.keys(dependencies).sort()) {
+        node.children.push(await build(childName, dependencies[childName]));
+      }
+      return node;
+    };
+
+    return build(packageName);
+  }
+
+  /**
+   * Lists every path from the project's direct dependencies to the target
+   * package, with the constraint each package places on the next one.
+   */
+  public async findPaths(
+    projectPath: string,
+    targetName: string,
+    directDependencies: Record<string, string>,
+    limit: number = 100
+  ): Promise<DependencyPathStep[][]> {
+    const lock = this.lockfileService.read(projectPath);
+    if (!lock) {
+      return [];
+    }
+
+    // The request scheduler caps how many of these lookups hit the network at once
+    const names = Object.keys(lock.packages);
+    const dependencyLists = await Promise.all(names.map(name => this.getDependencies(projectPath, name)));
+    const graph = new Map<string, Record<string, string>>(names.map((name, i) => [name, dependencyLists[i]]));
+
+    // Walk the reversed graph from the target to find everything that leads to it
+    const reachesTarget = new Set<string>([targetName]);
+    const queue = [targetName];
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      for (const [parent, dependencies] of graph.entries()) {
+        if (name in dependencies && !reachesTarget.has(parent)) {
+          reachesTarget.add(parent);
+          queue.push(parent);
+        }
+      }
+    }
+
+    const paths: DependencyPathStep[][] = [];
+    const walk = (current: DependencyPathStep[]) => {
+      if (paths.length >= limit) {
+        return;
+      }
+
+      const last = current[current.length - 1];
+      if (last.name === targetName) {
+        paths.push([...current]);
+        return;
+      }
+
+      const dependencies = graph.get(last.name) || {};
+      for (const child of Object.keys(dependencies).sort()) {
+        if (current.some(step => step.name === child) || !reachesTarget.has(child)) {
+          continue;
+        }
+        current.push({ name: child, version: lock.packages[child]?.version, constraint: dependencies[child] });
+        walk(current);
+        current.pop();
+      }
+    };
+
+    for (const name of Object.keys(directDependencies).sort()) {
+      if (reachesTarget.has(name)) {
+        walk([{ name, version: lock.packages[name]?.version, constraint: directDependencies[name] }]);
+      }
+    }
+
+    return paths;
+  }
+
+  public clear(): void {
+    this.pubspecCache.clear();
+  }
+
+  /**
+   * The pubspec of a locked package version, from the pub cache, the package
+   * server or the local folder it comes from.
+   */
+  public async getLockedPubspec(projectPath: string, locked: LockedPackage): Promise<PubPackagePubspec | null> {
+    const cacheKey = `${locked.source}:${locked.name}@${locked.version}:${locked.source === 'path' ? projectPath : ''}`;
+    if (this.pubspecCache.has(cacheKey)) {
+      return this.pubspecCache.get(cacheKey)!;
+    }
+
+    let pubspec: PubPackagePubspec | null = null;
+    switch (locked.source) {
+      case 'hosted':
+        pubspec = this.pubCacheService.readHostedPubspec(locked.name, locked.version, locked.description?.url)
+          || await this.fetchPubspec(locked.name, locked.version, locked.description?.url);
+        break;
+      case 'path':
+        if (typeof locked.description?.path === 'string') {
+          pubspec = this.pubCacheService.readPubspec(path.resolve(projectPath, locked.description.path));
+        }
+        break;
+      case 'git':
+        pubspec = this.pubCacheService.readGitPubspec(locked.description);
+        break;
+      case 'sdk':
+        // SDK packages live inside the Flutter checkout and are pinned by it
+        break;
+    }
+
+    this.pubspecCache.set(cacheKey, pubspec);
+    return pubspec;
+  }
+
+  private async fetchPubspec(packageName: string, version: string, hostedUrl?: string): Promise<PubPackagePubspec | null> {
+    const details = await this.pubApiService.getPackageDetails(packageName, hostedUrl);
+    if (!details) {
+      return null;
+    }
+    const match = (details.versions || [details.latest]).find(v => v.version === version);
+    return match?.pubspec || null;
+  }
+
+  private describeConstraint(value: any): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (value === null || value === undefined) {
+      return 'any';
+    }
+    if (typeof value === 'object') {
+      if (typeof value.version === 'string') {
+        return value.version;
+      }
+      if (value.git) return 'git';
+      if (value.path) return 'path';
+      if (value.sdk) return `sdk: ${value.sdk}`;
+    }
+    return String(value);
+  }
+}
@@ -1,18 +1,87 @@
 import * as vscode from 'vscode';
-import { WorkspaceService } from './workspace-service';
+import * as path from 'path';
+import * as fs from 'fs';
+import { DependencyChange, WorkspaceService } from './workspace-service';
 import { PubApiService } from './pub-api-service';
+import { DependencyGraphService } from './dependency-graph-service';
+import { SdkService } from './sdk-service';
+import { DependencyInfo, InstalledSdk, PubPackagePubspec, PubPackageVersion, WorkspaceProject } from '../types/pub-types';
+import { compareVersions, compareVersionStrings, parseSdkConstraint, parseVersion, Version, VersionConstraint } from '../utils/dart-semver';
+import { isHostedSpec } from '../utils/dependency-spec';
+import { isVersionSolvingFailure, parseSolverOutput, SolverExplanation, SolverFact } from '../utils/solver-output-parser';
+
+export interface ConstraintSuggestion {
+  packageName: string;
+  constraint: string;
+}
 
 export interface DependencyConflict {
   packageName: string;
   conflictingVersions: string[];
   suggestedResolution: string;
   reason: string;
+  suggestions: ConstraintSuggestion[];
+}
+
+export interface ResolutionSuggestion {
+  title: string;
+  detail: string;
+  packageName?: string;
+  constraint?: string;
+}
+
+/**
+ * Constraints one party places on a package. A direct dependency contributes
+ * one constraint per candidate version its own constraint allows.
+ */
+interface Requirement {
+  from: string;
+  constraints: string[];
+  isProject: boolean;
+}
+
+/**
+ * The lowest SDK a package version accepts.
+ */
+interface SdkRequirement {
+  packageName: string;
+  version: string;
+  dartMin?: Version;
+  flutterMin?: Version;
+}
+
+/**
+ * New `environment:` values and what drove them.
+ */
+interface SdkConstraintProposal {
+  sdk: string;
+  /** Only set when the project declares a Flutter constraint */
+  flutter?: string;
+  dartLower: Version;
+  /** Package that needs the Dart lower bound, unset when the current one was kept */
+  dartDrivenBy?: SdkRequirement;
+  flutterDrivenBy?: SdkRequirement;
+}
+
+/**
+ * Newest version a direct dependency can resolve to before and after the
+ * SDK constraint change.
+ */
+interface SdkConstraintEffect {
+  dependency: DependencyInfo;
+  before?: string;
+  after?: string;
+  latest?: string;
+  /** What latest still needs with the new constraints */
+  latestRequires?: string;
 }
 
 export class DependencyResolver {
   constructor(
     private workspaceService: WorkspaceService,
-    private pubApiService: PubApiService
+    private pubApiService: PubApiService,
+    private dependencyGraphService: DependencyGraphService,
+    private sdkService: SdkService
   ) {}
 
   public async resolveDependencyConflicts(projectPath: string): Promise<void> {
@@ -41,21 +110,177 @@ export class DependencyResolver {
     }
   }
 
+  /**
+   * Builds the constraint graph from the project's direct dependencies and the
+   * pubspecs of every version their constraints allow, then reports packages
+   * whose combined constraints cannot all be met.
+   */
   private async detectConflicts(projectPath: string): Promise<DependencyConflict[]> {
-    // Simulamos detección de conflictos común en Flutter
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+    if (!project) {
+      return [];
+    }
+
     const conflicts: DependencyConflict[] = [];
-    
-    // Aquí iríamos a buscar conflictos reales, por ahora detectamos patrones comunes
-    const commonConflicts = [
-      {
-        packageName: 'flutter_lints',
-        conflictingVersions: ['^6.0.0', '^5.0.0'],
-        suggestedResolution: '^5.0.0',
-        reason: 'Incompatible version ranges between direct and transitive dependencies'
+    const requirements = new Map<string, Requirement[]>();
+    const versionsByPackage = new Map<string, PubPackageVersion[]>();
+    const addRequirement = (packageName: string, requirement: Requirement) => {
+      const existing = requirements.get(packageName) || [];
+      existing.push(requirement);
+      requirements.set(packageName, existing);
+    };
+
+    // git, path and sdk dependencies have no published versions to pick from
+    const directDependencies = project.dependencies
+      .filter(dep => dep.spec.source === 'hosted' && VersionConstraint.parse(dep.version));
+    for (const dep of directDependencies) {
+      addRequirement(dep.name, { from: project.name, constraints: [dep.version], isProject: true });
+    }
+
+    for (const dep of directDependencies) {
+      const details = await this.pubApiService.getPackageDetails(dep.name, dep.spec.url);
+      if (!details) {
+        continue;
       }
-    ];
 
-    return commonConflicts;
+      const versions = details.versions || [details.latest];
+      versionsByPackage.set(dep.name, versions);
+
+      const constraint = VersionConstraint.parse(dep.version)!;
+      const candidates = versions.filter(v => constraint.allows(v.version));
+      if (candidates.length === 0) {
+        conflicts.push({
+          packageName: dep.name,
+          conflictingVersions: [`${project.name} requires ${dep.version}`],
+          suggestedResolution: `${dep.name}: ^${details.latest.version}`,
+          reason: `No published version of ${dep.name} matches ${dep.version}`,
+          suggestions: [{ packageName: dep.name, constraint: `^${details.latest.version}` }]
+        });
+        continue;
+      }
+
+      // Only packages every candidate depends on are hard requirements
+      for (const shared of this.getSharedDependencies(candidates)) {
+        addRequirement(shared, {
+          from: dep.name,
+          constraints: this.unique(candidates.map(v => this.getConstraintOn(v, shared)!)),
+          isProject: false
+        });
+      }
+    }
+
+    for (const [packageName, packageRequirements] of requirements.entries()) {
+      if (packageRequirements.length < 2 || this.findCommonConstraint(packageRequirements)) {
+        continue;
+      }
+
+      const hostedUrl = directDependencies.find(dep => dep.name === packageName)?.spec.url;
+      const suggestions = await this.suggestResolutions(packageName, packageRequirements, versionsByPackage, hostedUrl);
+      conflicts.push({
+        packageName,
+        conflictingVersions: packageRequirements.map(r => `${r.from} requires ${r.constraints.join(' | ')}`),
+        suggestedResolution: suggestions.length > 0
+          ? suggestions.map(s => `${s.packageName}: ${s.constraint}`).join(', ')
+          : 'no automatic fix, consider dependency_overrides',
+        reason: `No version of ${packageName} satisfies ${packageRequirements.map(r => r.from).join(', ')} at the same time`,
+        suggestions
+      });
+    }
+
+    return conflicts;
+  }
+
+  private async suggestResolutions(
+    packageName: string,
+    requirements: Requirement[],
+    versionsByPackage: Map<string, PubPackageVersion[]>,
+    hostedUrl?: string
+  ): Promise<ConstraintSuggestion[]> {
+    // First choice: move the project's own constraint to where everyone else overlaps
+    const projectRequirement = requirements.find(r => r.isProject);
+    if (projectRequirement) {
+      const others = requirements.filter(r => r !== projectRequirement);
+      const common = this.findCommonConstraint(others);
+      const available = await this.pubApiService.getAvailableVersions(packageName, hostedUrl);
+      const target = common?.maxAllowed(available);
+      if (target) {
+        return [{ packageName, constraint: `^${target}` }];
+      }
+    }
+
+    // Otherwise move one of the direct dependencies to a version that agrees with the rest
+    for (const requirement of requirements.filter(r => !r.isProject)) {
+      const others = requirements.filter(r => r !== requirement);
+      const versions = [...(versionsByPackage.get(requirement.from) || [])]
+        .sort((a, b) => compareVersionStrings(b.version, a.version));
+
+      for (const candidate of versions) {
+        const constraint = this.getConstraintOn(candidate, packageName) || 'any';
+        if (this.findCommonConstraint([...others, { from: requirement.from, constraints: [constraint], isProject: false }])) {
+          return [{ packageName: requirement.from, constraint: `^${candidate.version}` }];
+        }
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Picks one constraint per requirement so that they all overlap, returning
+   * the overlap, or null when no combination works. Intersections are
+   * intervals, so few distinct states repeat; remembering the ones that
+   * failed keeps the search from growing exponentially with the requirers.
+   */
+  private findCommonConstraint(requirements: Requirement[]): VersionConstraint | null {
+    const options = requirements.map(r => r.constraints.map(text => VersionConstraint.parse(text)));
+    const failed = new Set<string>();
+
+    const search = (index: number, current: VersionConstraint): VersionConstraint | null => {
+      if (current.isEmpty()) {
+        return null;
+      }
+      if (index === options.length) {
+        return current;
+      }
+
+      const state = `${index}:${current}`;
+      if (failed.has(state)) {
+        return null;
+      }
+      for (const constraint of options[index]) {
+        const result = search(index + 1, constraint ? current.intersect(constraint) : current);
+        if (result) {
+          return result;
+        }
+      }
+      failed.add(state);
+      return null;
+    };
+
+    return search(0, VersionConstraint.any);
+  }
+
+  private getSharedDependencies(candidates: PubPackageVersion[]): string[] {
+    const [first, ...rest] = candidates;
+    return Object.keys(first.pubspec?.dependencies || {})
+      .filter(name => this.getConstraintOn(first, name) !== null)
+      .filter(name => rest.every(v => this.getConstraintOn(v, name) !== null));
+  }
+
+  private getConstraintOn(version: PubPackageVersion, packageName: string): string | null {
+    const value: any = version.pubspec?.dependencies?.[packageName];
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (value && typeof value === 'object' && typeof value.version === 'string') {
+      return value.version;
+    }
+    // Dependencies without a version (git, path, sdk) cannot be compared
+    return null;
+  }
+
+  private unique(values: string[]): string[] {
+    return Array.from(new Set(values));
   }
 
   private async showConflictResolutionOptions(
@@ -87,35 +312,54 @@ export class DependencyResolver {
     }
 
     if (selected.conflict === null) {
-      // Resolver todos los conflictos
-      for (const conflict of conflicts) {
-        await this.applyResolution(projectPath, conflict);
+      // Resolver todos los conflictos en una sola edición, con vista previa
+      if (await this.applyResolution(projectPath, conflicts, true)) {
+        vscode.window.showInformationMessage(`Resolved ${conflicts.length} dependency conflicts!`);
       }
-      vscode.window.showInformationMessage(`Resolved ${conflicts.length} dependency conflicts!`);
     } else {
       // Resolver conflicto específico
-      await this.applyResolution(projectPath, selected.conflict);
-      vscode.window.showInformationMessage(`Resolved conflict for ${selected.conflict.packageName}!`);
+      if (await this.applyResolution(projectPath, [selected.conflict])) {
+        vscode.window.showInformationMessage(`Resolved conflict for ${selected.conflict.packageName}!`);
+      }
     }
   }
 
-  private async applyResolution(projectPath: string, conflict: DependencyConflict): Promise<void> {
+  private async applyResolution(
+    projectPath: string,
+    conflicts: DependencyConflict[],
+    preview: boolean = false
+  ): Promise<boolean> {
+    for (const conflict of conflicts.filter(c => c.suggestions.length === 0)) {
+      vscode.window.showWarningMessage(`No automatic fix found for ${conflict.packageName}: ${conflict.reason}`);
+    }
+
+    // Aplicar las resoluciones sugeridas como una única edición que se puede deshacer
+    const changes: DependencyChange[] = [];
+    for (const suggestion of conflicts.flatMap(conflict => conflict.suggestions)) {
+      if (changes.some(change => change.packageName === suggestion.packageName)) {
+        continue;
+      }
+      changes.push({
+        packageName: suggestion.packageName,
+        version: suggestion.constraint,
+        isDev: await this.isDevDependency(projectPath, suggestion.packageName)
+      });
+    }
+
+    if (changes.length === 0) {
+      return false;
+    }
+
     try {
-      // Determinar si es dev dependency
-      const isDev = await this.isDevDependency(projectPath, conflict.packageName);
-      
-      // Aplicar la resolución sugerida
-      await this.workspaceService.updateDependency(
-        projectPath,
-        conflict.packageName,
-        conflict.suggestedResolution,
-        isDev
-      );
-
-      console.log(`Applied resolution: ${conflict.packageName} → ${conflict.suggestedResolution}`);
+      const applied = await this.workspaceService.applyDependencyChanges(projectPath, changes, preview);
+      if (applied) {
+        changes.forEach(change => console.log(`Applied resolution: ${change.packageName} → ${change.version}`));
+      }
+      return applied;
     } catch (error) {
-      console.error(`Failed to apply resolution for ${conflict.packageName}:`, error);
-      vscode.window.showErrorMessage(`Failed to resolve ${conflict.packageName}: ${error}`);
+      console.error('Failed to apply resolutions:', error);
+      vscode.window.showErrorMessage(`Failed to resolve conflicts: ${error}`);
+      return false;
     }
   }
 
@@ -132,21 +376,27 @@ export class DependencyResolver {
   }
 
   public async handlePubGetError(projectPath: string, errorOutput: string): Promise<void> {
-    // Parsear errores comunes de pub get
-    if (errorOutput.includes('version solving failed')) {
-      await this.handleVersionSolvingError(projectPath, errorOutput);
-    } else if (errorOutput.includes('sdk constraint')) {
+    // Parsear errores comunes de pub get. Los errores de SDK también terminan
+    // en "version solving failed", así que se revisan primero
+    if (/requires SDK version|sdk constraint|SDK version [^\n]*is incompatible/i.test(errorOutput)) {
       await this.handleSdkConstraintError(projectPath, errorOutput);
+    } else if (isVersionSolvingFailure(errorOutput)) {
+      await this.handleVersionSolvingError(projectPath, errorOutput);
     } else {
-      vscode.window.showErrorMessage(`Pub get failed: ${errorOutput}`);
+      const lastLine = errorOutput.trim().split('\n').pop() || 'unknown error';
+      vscode.window.showErrorMessage(`Pub get failed: ${lastLine}`);
     }
   }
 
   private async handleVersionSolvingError(projectPath: string, errorOutput: string): Promise<void> {
+    const explanation = parseSolverOutput(errorOutput);
+    const culprits = explanation.packages.filter(name => name !== this.getProjectName(projectPath));
     const action = await vscode.window.showErrorMessage(
-      'Dependency version conflict detected!',
+      culprits.length > 0
+        ? `Dependency version conflict detected involving ${culprits.slice(0, 3).join(', ')}${culprits.length > 3 ? '…' : ''}`
+        : 'Dependency version conflict detected!',
       'Auto-Resolve',
-      'Manual Fix',
+      'Explain Conflict',
       'View Details'
     );
 
@@ -154,8 +404,8 @@ export class DependencyResolver {
       case 'Auto-Resolve':
         await this.resolveDependencyConflicts(projectPath);
         break;
-      case 'Manual Fix':
-        await this.showManualFixGuidance(errorOutput);
+      case 'Explain Conflict':
+        await this.showManualFixGuidance(projectPath, errorOutput, explanation);
         break;
       case 'View Details':
         await this.showErrorDetails(errorOutput);
@@ -163,6 +413,108 @@ export class DependencyResolver {
     }
   }
 
+  /**
+   * Turns the incompatibility chain into concrete constraint changes for the
+   * packages the project depends on directly.
+   */
+  private async buildSolverSuggestions(projectPath: string, explanation: SolverExplanation): Promise<ResolutionSuggestion[]> {
+    const projectName = this.getProjectName(projectPath);
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+    const suggestions: ResolutionSuggestion[] = [];
+    const seen = new Set<string>();
+
+    for (const fact of explanation.facts) {
+      if (fact.kind === 'depends' && fact.subject.packageName === projectName && !fact.target.source) {
+        const packageName = fact.target.packageName;
+        if (seen.has(packageName)) {
+          continue;
+        }
+        seen.add(packageName);
+
+        const declaredDependency = project?.dependencies.find(d => d.name === packageName);
+        const declared = declaredDependency?.version || fact.target.constraint || 'any';
+
+        // Another package pins this one: align with it
+        const pinnedBy = explanation.facts.find(other =>
+          other.kind === 'depends' && other.target.packageName === packageName &&
+          other.subject.packageName !== projectName && VersionConstraint.parse(other.target.constraint)
+        );
+        if (pinnedBy && pinnedBy.kind === 'depends') {
+          const available = await this.pubApiService.getAvailableVersions(packageName, declaredDependency?.spec.url);
+          const target = VersionConstraint.parse(pinnedBy.target.constraint)!.maxAllowed(available);
+          if (target && !VersionConstraint.parse(declared)?.allows(target)) {
+            suggestions.push({
+              title: `Align ${packageName} with ${pinnedBy.subject.packageName}`,
+              detail: `${pinnedBy.subject.packageName} requires ${packageName} ${pinnedBy.target.constraint}; change ${declared} to ^${target}`,
+              packageName,
+              constraint: `^${target}`
+            });
+            continue;
+          }
+        }
+
+        const latest = await this.pubApiService.getLatestVersion(packageName);
+        if (latest && !VersionConstraint.parse(declared)?.allows(latest)) {
+          suggestions.push({
+            title: `Allow newer ${packageName}`,
+            detail: `Change ${declared} to ^${latest} so pub can pick a release with compatible dependencies`,
+            packageName,
+            constraint: `^${latest}`
+          });
+        }
+      } else if (fact.kind === 'noVersions') {
+        suggestions.push({
+          title: `No versions of ${fact.target.packageName} match ${fact.target.constraint}`,
+          detail: 'Loosen the constraints that narrow it down, or check for a typo in the version'
+        });
+      } else if (fact.kind === 'requiresSdk') {
+        suggestions.push({
+          title: `${fact.subject.packageName} ${fact.subject.constraint || ''} needs ${fact.sdk} SDK ${fact.constraint}`.replace(/\s+/g, ' '),
+          detail: `Upgrade the ${fact.sdk} SDK and the environment constraint, or pin an older ${fact.subject.packageName}`
+        });
+      }
+    }
+
+    return suggestions;
+  }
+
+  private getProjectName(projectPath: string): string | undefined {
+    return this.workspaceService.getProjects().find(p => p.path === projectPath)?.name;
+  }
+
+  /**
+   * Maps each package declared in a pubspec to its (zero based) line number.
+   */
+  private findDependencyLines(pubspecPath: string): Record<string, number> {
+    const lines: Record<string, number> = {};
+    if (!fs.existsSync(pubspecPath)) {
+      return lines;
+    }
+
+    let inSection = false;
+    let childIndent = -1;
+    fs.readFileSync(pubspecPath, 'utf8').split('\n').forEach((line, index) => {
+      if (/^\S/.test(line)) {
+        inSection = /^(dependencies|dev_dependencies|dependency_overrides)\s*:/.test(line);
+        childIndent = -1;
+        return;
+      }
+
+      const match = line.match(/^(\s+)([a-zA-Z_][a-zA-Z0-9_]*)\s*:/);
+      if (!inSection || !match) {
+        return;
+      }
+      if (childIndent < 0) {
+        childIndent = match[1].length;
+      }
+      if (match[1].length === childIndent && lines[match[2]] === undefined) {
+        lines[match[2]] = index;
+      }
+    });
+
+    return lines;
+  }
+
   private async handleSdkConstraintError(projectPath: string, errorOutput: string): Promise<void> {
     const action = await vscode.window.showErrorMessage(
       'SDK constraint error detected!',
@@ -184,15 +536,91 @@ export class DependencyResolver {
     }
   }
 
-  private async showManualFixGuidance(errorOutput: string): Promise<void> {
+  private async showManualFixGuidance(
+    projectPath: string,
+    errorOutput: string,
+    explanation: SolverExplanation = parseSolverOutput(errorOutput)
+  ): Promise<void> {
     const panel = vscode.window.createWebviewPanel(
       'dependencyConflictHelp',
       'Dependency Conflict Help',
       vscode.ViewColumn.Two,
-      { enableScripts: true }
+      { enableScripts: true, enableCommandUris: true }
     );
 
-    panel.webview.html = this.generateConflictHelpHtml(errorOutput);
+    const suggestions = await this.buildSolverSuggestions(projectPath, explanation);
+    panel.webview.html = this.generateConflictHelpHtml(
+      errorOutput,
+      this.renderExplanationHtml(projectPath, explanation, suggestions)
+    );
+  }
+
+  private renderExplanationHtml(
+    projectPath: string,
+    explanation: SolverExplanation,
+    suggestions: ResolutionSuggestion[]
+  ): string {
+    if (explanation.steps.length === 0) {
+      return '';
+    }
+
+    const pubspecPath = path.join(projectPath, 'pubspec.yaml');
+    const pubspecUri = vscode.Uri.file(pubspecPath).toString();
+    const lines = this.findDependencyLines(pubspecPath);
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+
+    const linkPackage = (name: string): string => {
+      const line = lines[name];
+      if (line === undefined) {
+        return `<strong>${escapeHtml(name)}</strong>`;
+      }
+      const args = encodeURIComponent(JSON.stringify([pubspecPath, line]));
+      return `<a href="command:smartPub.revealPubspecLine?${args}" title="pubspec.yaml line ${line + 1}"><strong>${escapeHtml(name)}</strong></a>`;
+    };
+
+    const renderFact = (fact: SolverFact): string => {
+      switch (fact.kind) {
+        case 'depends':
+          return `${linkPackage(fact.subject.packageName)} ${escapeHtml(fact.subject.constraint || '')} depends on ` +
+            `${linkPackage(fact.target.packageName)} <code>${escapeHtml(fact.target.constraint || fact.target.source || 'any')}</code>`;
+        case 'requiresSdk':
+          return `${linkPackage(fact.subject.packageName)} ${escapeHtml(fact.subject.constraint || '')} requires ` +
+            `${escapeHtml(fact.sdk)} SDK <code>${escapeHtml(fact.constraint)}</code>`;
+        case 'noVersions':
+          return `no versions of ${linkPackage(fact.target.packageName)} match <code>${escapeHtml(fact.target.constraint || '')}</code>`;
+        default:
+          return escapeHtml(fact.text);
+      }
+    };
+
+    const steps = explanation.steps.map(step => `
+            <li>
+                ${step.label !== undefined ? `<em>(${step.label})</em> ` : ''}Because
+                <ul>${step.premises.map(fact => `<li>${renderFact(fact)}</li>`).join('')}</ul>
+                &rArr; ${escapeHtml(step.conclusion)}
+            </li>`).join('');
+
+    const fixes = suggestions.map(suggestion => {
+      let apply = '';
+      if (suggestion.packageName && suggestion.constraint) {
+        const args = encodeURIComponent(JSON.stringify({
+          packageName: suggestion.packageName,
+          newVersion: suggestion.constraint,
+          isDev: project?.dependencies.find(d => d.name === suggestion.packageName)?.isDev || false,
+          documentUri: pubspecUri
+        }));
+        apply = ` <a href="command:smartPub.updatePackage?${args}">Apply</a>`;
+      }
+      return `<li><strong>${escapeHtml(suggestion.title)}</strong>${apply}<br>${escapeHtml(suggestion.detail)}</li>`;
+    }).join('');
+
+    return `
+        <div class="solution">
+            <h3>🔍 Why version solving failed:</h3>
+            ${explanation.sdkMessage ? `<p>${escapeHtml(explanation.sdkMessage)}</p>` : ''}
+            <ol>${steps}</ol>
+        </div>
+        ${fixes ? `<div class="solution"><h3>✅ Suggested fixes:</h3><ul>${fixes}</ul></div>` : ''}`;
   }
 
   private async showErrorDetails(errorOutput: string): Promise<void> {
@@ -203,12 +631,262 @@ export class DependencyResolver {
     vscode.window.showTextDocument(document);
   }
 
-  private async updateSdkConstraints(projectPath: string): Promise<void> {
-    // Implementar lógica para actualizar constraints del SDK
-    vscode.window.showInformationMessage('SDK constraint update not implemented yet');
+  /**
+   * Rewrites `environment:` to a range that the installed SDK and every
+   * package agree with. The lower bound is the highest minimum any locked
+   * package needs, never below the current one; the upper bound is the next
+   * major of the installed Dart SDK. The effect on each direct dependency is
+   * shown before anything is written.
+   */
+  public async updateSdkConstraints(projectPath: string): Promise<void> {
+    const project = this.workspaceService.getProjects().find(p => p.path === projectPath);
+    if (!project) {
+      vscode.window.showErrorMessage(`No Flutter project found at ${projectPath}`);
+      return;
+    }
+
+    const plan = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Working out SDK constraints...',
+      cancellable: false
+    }, async (progress) => {
+      progress.report({ increment: 10, message: 'Detecting installed SDK' });
+      // El SDK puede haber cambiado desde la última detección
+      this.workspaceService.refreshSdks();
+      const installed = await this.sdkService.getProjectSdk(project);
+
+      progress.report({ increment: 30, message: 'Reading package requirements' });
+      const requirements = await this.collectSdkRequirements(project);
+      const proposal = this.proposeSdkConstraints(project, installed, requirements);
+      if (!proposal) {
+        return null;
+      }
+
+      progress.report({ increment: 40, message: 'Checking dependencies against the new range' });
+      const effects = await this.previewSdkEffects(project, installed, proposal);
+      return { installed, proposal, effects };
+    });
+
+    if (!plan) {
+      vscode.window.showWarningMessage('Could not work out an SDK constraint: no Dart SDK found and no package declares one');
+      return;
+    }
+
+    const { installed, proposal, effects } = plan;
+    const flutterChanged = Boolean(proposal.flutter) && proposal.flutter !== project.flutterConstraint;
+    if (proposal.sdk === project.sdkConstraint && !flutterChanged) {
+      vscode.window.showInformationMessage(`environment.sdk '${proposal.sdk}' already fits the installed SDK and every dependency`);
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      this.createSdkPreviewItems(project, installed, proposal, effects),
+      { placeHolder: `Update SDK constraints of ${project.name}?`, ignoreFocusOut: true, matchOnDescription: true }
+    );
+    if (!selected?.apply) {
+      return;
+    }
+
+    const updated = await this.workspaceService.updateEnvironment(projectPath, {
+      sdk: proposal.sdk,
+      flutter: flutterChanged ? proposal.flutter : undefined
+    });
+    if (updated) {
+      vscode.window.showInformationMessage(`Updated environment.sdk to '${proposal.sdk}'`);
+    }
+  }
+
+  /**
+   * SDK lower bounds of the locked packages, or of the newest versions the
+   * direct dependencies allow when there is no pubspec.lock yet.
+   */
+  private async collectSdkRequirements(project: WorkspaceProject): Promise<SdkRequirement[]> {
+    const toRequirement = (packageName: string, version: string, pubspec: PubPackagePubspec | null): SdkRequirement => ({
+      packageName,
+      version,
+      dartMin: parseSdkConstraint(pubspec?.environment?.sdk)?.min,
+      flutterMin: VersionConstraint.parse(pubspec?.environment?.flutter)?.min
+    });
+
+    const lock = this.workspaceService.getLockfile(project.path);
+    if (lock) {
+      const lockedPackages = Object.values(lock.packages).filter(locked => locked.source !== 'sdk');
+      return Promise.all(lockedPackages.map(async locked =>
+        toRequirement(locked.name, locked.version, await this.dependencyGraphService.getLockedPubspec(project.path, locked))
+      ));
+    }
+
+    const hosted = project.dependencies.filter(dep => isHostedSpec(dep.spec));
+    const requirements = await Promise.all(hosted.map(async (dep): Promise<SdkRequirement | null> => {
+      const details = await this.pubApiService.getPackageDetails(dep.name, dep.spec.url);
+      const versions = (details?.versions || (details ? [details.latest] : [])).filter(v => !v.retracted);
+      const version = VersionConstraint.parse(dep.version)?.maxAllowed(versions.map(v => v.version));
+      const match = versions.find(v => v.version === version);
+      return match ? toRequirement(dep.name, match.version, match.pubspec) : null;
+    }));
+    return requirements.filter((requirement): requirement is SdkRequirement => requirement !== null);
+  }
+
+  private proposeSdkConstraints(
+    project: WorkspaceProject,
+    installed: InstalledSdk,
+    requirements: SdkRequirement[]
+  ): SdkConstraintProposal | null {
+    const currentSdk = VersionConstraint.parse(project.sdkConstraint);
+    const installedDart = parseVersion(installed.dartVersion);
+
+    // La cota inferior es el mínimo más alto que pide algún paquete
+    let dartLower = currentSdk?.min;
+    let dartDrivenBy: SdkRequirement | undefined;
+    for (const requirement of requirements) {
+      if (requirement.dartMin && (!dartLower || compareVersions(requirement.dartMin, dartLower) > 0)) {
+        dartLower = requirement.dartMin;
+        dartDrivenBy = requirement;
+      }
+    }
+    dartLower = dartLower || installedDart || undefined;
+    if (!dartLower) {
+      return null;
+    }
+
+    // La cota superior deja entrar el SDK instalado
+    const base = installedDart && compareVersions(installedDart, dartLower) > 0 ? installedDart : dartLower;
+    const upperMajor = base.major + 1;
+    const useCaret = project.sdkConstraint?.trim().startsWith('^') && dartLower.major + 1 === upperMajor;
+    const proposal: SdkConstraintProposal = {
+      sdk: useCaret ? `^${dartLower.text}` : `>=${dartLower.text} <${upperMajor}.0.0`,
+      dartLower,
+      dartDrivenBy
+    };
+
+    const currentFlutter = VersionConstraint.parse(project.flutterConstraint);
+    if (currentFlutter) {
+      let flutterLower = currentFlutter.min;
+      for (const requirement of requirements) {
+        if (requirement.flutterMin && (!flutterLower || compareVersions(requirement.flutterMin, flutterLower) > 0)) {
+          flutterLower = requirement.flutterMin;
+          proposal.flutterDrivenBy = requirement;
+        }
+      }
+      proposal.flutter = proposal.flutterDrivenBy && flutterLower
+        ? `>=${flutterLower.text}${currentFlutter.max ? ` ${currentFlutter.includeMax ? '<=' : '<'}${currentFlutter.max.text}` : ''}`
+        : project.flutterConstraint;
+    }
+
+    return proposal;
   }
 
-  private generateConflictHelpHtml(errorOutput: string): string {
+  private async previewSdkEffects(
+    project: WorkspaceProject,
+    installed: InstalledSdk,
+    proposal: SdkConstraintProposal
+  ): Promise<SdkConstraintEffect[]> {
+    const dependencyConstraints: Record<string, string> = {};
+    for (const dep of project.dependencies) {
+      if (dep.spec.source === 'hosted' && dep.spec.constraint) {
+        dependencyConstraints[dep.name] = dep.spec.constraint;
+      }
+    }
+
+    const hosted = project.dependencies.filter(dep => isHostedSpec(dep.spec));
+    return Promise.all(hosted.map(async (dependency): Promise<SdkConstraintEffect> => {
+      const options = {
+        ...installed,
+        lockedVersion: dependency.currentVersion,
+        dependencyConstraints,
+        hostedUrl: dependency.spec.url
+      };
+      const [before, after] = await Promise.all([
+        this.pubApiService.getVersionColumns(dependency.name, dependency.version, {
+          ...options,
+          sdkConstraint: project.sdkConstraint,
+          flutterConstraint: project.flutterConstraint
+        }),
+        this.pubApiService.getVersionColumns(dependency.name, dependency.version, {
+          ...options,
+          sdkConstraint: proposal.sdk,
+          flutterConstraint: proposal.flutter
+        })
+      ]);
+
+      return {
+        dependency,
+        before: before.resolvable,
+        after: after.resolvable,
+        latest: after.latest,
+        latestRequires: after.latestRequires
+      };
+    }));
+  }
+
+  private createSdkPreviewItems(
+    project: WorkspaceProject,
+    installed: InstalledSdk,
+    proposal: SdkConstraintProposal,
+    effects: SdkConstraintEffect[]
+  ): Array<vscode.QuickPickItem & { apply?: boolean }> {
+    const changes = [`sdk: '${proposal.sdk}'`];
+    if (proposal.flutter && proposal.flutter !== project.flutterConstraint) {
+      changes.push(`flutter: '${proposal.flutter}'`);
+    }
+
+    const items: Array<vscode.QuickPickItem & { apply?: boolean }> = [
+      {
+        label: '$(check) Apply',
+        description: changes.join(', '),
+        detail: `Currently sdk: '${project.sdkConstraint || 'none'}'${project.flutterConstraint ? `, flutter: '${project.flutterConstraint}'` : ''}. Runs pub get afterwards.`,
+        apply: true
+      },
+      { label: '$(close) Cancel' },
+      { label: 'Why this range', kind: vscode.QuickPickItemKind.Separator }
+    ];
+
+    items.push({
+      label: `$(info) Lower bound ${proposal.dartLower.text}`,
+      description: proposal.dartDrivenBy
+        ? `needed by ${proposal.dartDrivenBy.packageName} ${proposal.dartDrivenBy.version}`
+        : 'kept from the current constraint'
+    });
+
+    const installedDart = parseVersion(installed.dartVersion);
+    if (!installedDart) {
+      items.push({ label: '$(warning) Dart SDK not detected', description: 'upper bound taken from the lower bound' });
+    } else if (compareVersions(installedDart, proposal.dartLower) < 0) {
+      items.push({
+        label: `$(warning) Installed Dart ${installed.dartVersion} is older than ${proposal.dartLower.text}`,
+        description: 'upgrade the SDK before running pub get'
+      });
+    } else {
+      items.push({ label: `$(info) Upper bound allows the installed Dart ${installed.dartVersion}` });
+    }
+
+    if (proposal.flutterDrivenBy && proposal.flutter !== project.flutterConstraint) {
+      items.push({
+        label: `$(info) Flutter ${proposal.flutter}`,
+        description: `needed by ${proposal.flutterDrivenBy.packageName} ${proposal.flutterDrivenBy.version}`
+      });
+    }
+
+    if (effects.length > 0) {
+      items.push({ label: 'Effect on dependencies', kind: vscode.QuickPickItemKind.Separator });
+      for (const effect of effects.sort((a, b) => a.dependency.name.localeCompare(b.dependency.name))) {
+        const improved = Boolean(effect.after) && (!effect.before || compareVersionStrings(effect.after!, effect.before) > 0);
+        items.push({
+          label: `${improved ? '$(arrow-up)' : '$(dash)'} ${effect.dependency.name}`,
+          description: improved
+            ? `${effect.before || '-'} → ${effect.after}`
+            : `${effect.after || effect.before || '-'} (unchanged)`,
+          detail: effect.latestRequires
+            ? `Latest ${effect.latest} still needs ${effect.latestRequires}`
+            : effect.after && effect.after === effect.latest ? 'Latest version reachable' : undefined
+        });
+      }
+    }
+
+    return items;
+  }
+
+  private generateConflictHelpHtml(errorOutput: string, explanationHtml: string = ''): string {
     return `
     <!DOCTYPE html>
     <html>
@@ -225,10 +903,11 @@ export class DependencyResolver {
     </head>
     <body>
         <h1>🔧 Dependency Conflict Resolution Guide</h1>
+        ${explanationHtml}
         
         <div class="error">
             <h3>Error Details:</h3>
-            <pre class="code">${errorOutput}</pre>
+            <pre class="code">${escapeHtml(errorOutput)}</pre>
         </div>
 
         <div class="solution">
@@ -252,4 +931,12 @@ export class DependencyResolver {
     </html>
     `;
   }
-} 
\ No newline at end of file
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,89 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { DependencyKind, DependencySource, LockedPackage, PubspecLock } from '../types/pub-types';
+
+export class LockfileService {
+  private cache: Map<string, { mtime: number; lock: PubspecLock }> = new Map();
+
+  public getLockfilePath(projectPath: string): string {
+    return path.join(projectPath, 'pubspec.lock');
+  }
+
+  /**
+   * Parses the pubspec.lock next to the project. The result is reused until
+   * the file's modification time changes.
+   */
+  public read(projectPath: string): PubspecLock | null {
+    const lockPath = this.getLockfilePath(projectPath);
+
+    try {
+      if (!fs.existsSync(lockPath)) {
+        this.cache.delete(lockPath);
+        return null;
+      }
+
+      const mtime = fs.statSync(lockPath).mtimeMs;
+      const cached = this.cache.get(lockPath);
+      if (cached && cached.mtime === mtime) {
+        return cached.lock;
+      }
+
+      const lock = this.parse(fs.readFileSync(lockPath, 'utf8'));
+      this.cache.set(lockPath, { mtime, lock });
+      return lock;
+    } catch (error) {
+      console.warn(`Failed to read ${lockPath}:`, error);
+      return null;
+    }
+  }
+
+  public getPackage(projectPath: string, packageName: string): LockedPackage | undefined {
+    return this.read(projectPath)?.packages[packageName];
+  }
+
+  public invalidate(projectPath: string): void {
+    this.cache.delete(this.getLockfilePath(projectPath));
+  }
+
+  public parse(content: string): PubspecLock {
+    const raw = parseYaml(content) || {};
+    const packages: Record<string, LockedPackage> = {};
+
+    for (const [name, entry] of Object.entries<any>(raw.packages || {})) {
+      if (!entry || typeof entry !== 'object') {
+        continue;
+      }
+
+      packages[name] = {
+        name,
+        version: String(entry.version ?? ''),
+        source: this.parseSource(entry.source),
+        dependency: this.parseKind(entry.dependency),
+        description: entry.description
+      };
+    }
+
+    const sdks: Record<string, string> = {};
+    for (const [sdk, constraint] of Object.entries<any>(raw.sdks || {})) {
+      sdks[sdk] = String(constraint);
+    }
+
+    return { packages, sdks };
+  }
+
+  private parseSource(source: unknown): DependencySource {
+    return source === 'git' || source === 'path' || source === 'sdk' ? source : 'hosted';
+  }
+
+  private parseKind(kind: unknown): DependencyKind {
+    switch (kind) {
+      case 'direct main':
+      case 'direct dev':
+      case 'direct overridden':
+        return kind;
+      default:
+        return 'transitive';
+    }
+  }
+}
@@ -1,100 +1,577 @@
-import axios, { AxiosResponse } from 'axios';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
 import * as vscode from 'vscode';
-import { PubSearchResponse, PubPackageDetails, PubPackage, PubPackageSearchResult } from '../types/pub-types';
+import { PackageVersionInfo, PubSearchResponse, PubPackageDetails, PubPackage, PubPackageScore, PubPackageSearchResult, PubPackageVersion, SdkEnvironment, UpdateCheckResult, VersionColumns } from '../types/pub-types';
 import { CacheService } from './cache-service';
+import { RepositoryService } from './repository-service';
+import { PubCacheService } from './pub-cache-service';
+import { RequestScheduler } from './request-scheduler';
+import { compareVersionStrings, isPreRelease, isVersionOutdated, parseSdkConstraint, parseVersion, VersionConstraint } from '../utils/dart-semver';
+
+export interface VersionColumnOptions extends SdkEnvironment {
+  lockedVersion?: string;
+  dependencyConstraints?: Record<string, string>;
+  /** Custom package server the dependency is hosted on */
+  hostedUrl?: string;
+  token?: vscode.CancellationToken;
+}
+
+/** The request behind a cache entry */
+export type CachedRequest =
+  | { kind: 'package'; packageName: string; hostedUrl: string }
+  | { kind: 'search'; query: string; page: number; hostedUrl: string }
+  | { kind: 'score'; packageName: string; hostedUrl: string };
+
+export interface LocalPackageDocuments {
+  readme?: string;
+  changelog?: string;
+}
 
 export class PubApiService {
-  private readonly baseUrl = 'https://pub.dev/api';
+  /** How long to serve an unreachable host from the pub cache before trying it again */
+  private static readonly offlineRetryMs = 60 * 1000;
+
   private readonly cacheService: CacheService;
+  private readonly repositoryService: RepositoryService;
+  private readonly pubCacheService: PubCacheService;
+  private readonly scheduler: RequestScheduler;
+  /** Hosts that failed with a network error, and when to retry them */
+  private readonly unreachableHosts = new Map<string, number>();
+  private readonly _onDidChangeOfflineState = new vscode.EventEmitter<boolean>();
+  readonly onDidChangeOfflineState: vscode.Event<boolean> = this._onDidChangeOfflineState.event;
 
-  constructor(cacheService: CacheService) {
+  constructor(cacheService: CacheService, repositoryService: RepositoryService, pubCacheService: PubCacheService) {
     this.cacheService = cacheService;
+    this.repositoryService = repositoryService;
+    this.pubCacheService = pubCacheService;
+
+    const config = vscode.workspace.getConfiguration('smartPub');
+    this.scheduler = new RequestScheduler({
+      maxConcurrent: Math.max(1, config.get<number>('maxConcurrentRequests', 6)),
+      maxRetries: 3,
+      baseDelayMs: 500,
+      maxDelayMs: 30 * 1000
+    });
   }
 
-  public async searchPackages(query: string, page: number = 1): Promise<PubPackage[]> {
-    const cacheKey = `search:${query}:${page}`;
+  /**
+   * True while the default package server can't be reached and data comes
+   * from the local pub cache instead.
+   */
+  public isOffline(): boolean {
+    return this.unreachableHosts.has(this.repositoryService.getDefaultUrl());
+  }
+
+  /**
+   * Searches the default package server and every configured repository.
+   * Results from servers other than the default one carry their `hostedUrl`.
+   * Rejects with `vscode.CancellationError` when `token` is cancelled.
+   */
+  public async searchPackages(query: string, page: number = 1, token?: vscode.CancellationToken): Promise<PubPackage[]> {
+    const results = await Promise.all(
+      this.repositoryService.getRepositories().map(repository => this.searchRepository(repository.url, query, page, token))
+    );
+    return results.reduce((all, packages) => all.concat(packages), [] as PubPackage[]);
+  }
+
+  private async searchRepository(
+    hostedUrl: string,
+    query: string,
+    page: number,
+    token?: vscode.CancellationToken
+  ): Promise<PubPackage[]> {
+    const isDefault = this.repositoryService.isDefaultUrl(hostedUrl);
+    const cacheKey = this.repositoryService.isPubDev(hostedUrl)
+      ? `search:${query}:${page}`
+      : `search:${hostedUrl}:${query}:${page}`;
     
-    if (this.cacheService.isEnabled() && this.cacheService.has(cacheKey)) {
-      return this.cacheService.get<PubPackage[]>(cacheKey) || [];
+    const config = vscode.workspace.getConfiguration('smartPub');
+    const maxResults = config.get<number>('maxSearchResults', 20);
+    const fetch = (fetchToken?: vscode.CancellationToken) =>
+      this.fetchSearchResults(hostedUrl, query, page, maxResults, cacheKey, fetchToken);
+
+    if (this.cacheService.isEnabled()) {
+      const cached = this.cacheService.getWithRevalidation<PubPackage[]>(cacheKey, () => this.revalidate(hostedUrl, fetch));
+      if (cached) {
+        return cached;
+      }
+    }
+
+    if (!this.shouldUseNetwork(hostedUrl)) {
+      return this.searchOffline(hostedUrl, query, maxResults);
     }
 
     try {
-      const config = vscode.workspace.getConfiguration('smartPub');
-      const maxResults = config.get<number>('maxSearchResults', 20);
-      
-      const response: AxiosResponse<PubSearchResponse> = await axios.get(
-        `${this.baseUrl}/search`,
-        {
-          params: {
-            q: query,
-            page: page,
-            size: Math.min(maxResults, 50)
-          },
-          timeout: 10000
-        }
-      );
-
-      const packages = await this.convertSearchResultsToPackages(response.data.packages);
-      
-      if (this.cacheService.isEnabled()) {
-        this.cacheService.set(cacheKey, packages, 1800); // 30 minutes cache for search
+      return await fetch(token);
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        throw error;
+      }
+      if (this.isNetworkError(error)) {
+        this.setReachable(hostedUrl, false);
+        return this.searchOffline(hostedUrl, query, maxResults);
       }
 
-      return packages;
-    } catch (error) {
-      console.error('Error searching packages:', error);
-      vscode.window.showErrorMessage(`Failed to search packages: ${this.getErrorMessage(error)}`);
+      // Search is not part of the hosted repository spec, so servers without
+      // it can still be queried for an exact package name
+      if (!this.repositoryService.isPubDev(hostedUrl) && (error as any)?.response?.status === 404) {
+        return this.findExactPackage(hostedUrl, query, token);
+      }
+
+      console.error(`Error searching packages on ${hostedUrl}:`, error);
+      if (isDefault) {
+        vscode.window.showErrorMessage(`Failed to search packages: ${this.getErrorMessage(error)}`);
+      }
       return [];
     }
   }
 
-  public async getPackageDetails(packageName: string): Promise<PubPackageDetails | null> {
-    const cacheKey = `package:${packageName}`;
+  private async fetchSearchResults(
+    hostedUrl: string,
+    query: string,
+    page: number,
+    maxResults: number,
+    cacheKey: string,
+    token?: vscode.CancellationToken
+  ): Promise<PubPackage[]> {
+    const response = await this.get<PubSearchResponse>(
+      `${hostedUrl}/api/search`,
+      {
+        params: {
+          q: query,
+          page: page,
+          size: Math.min(maxResults, 50)
+        },
+        headers: await this.repositoryService.getHeaders(hostedUrl),
+        timeout: 10000
+      },
+      token
+    );
+
+    this.setReachable(hostedUrl, true);
+    const packages = await this.convertSearchResultsToPackages(response.data.packages || [], hostedUrl, token);
+
+    if (this.cacheService.isEnabled()) {
+      this.cacheService.set(cacheKey, packages, 1800); // 30 minutes cache for search
+    }
+
+    return packages;
+  }
+
+  /**
+   * Matches package names in the local pub cache. Scores and likes are not
+   * available offline.
+   */
+  private async searchOffline(hostedUrl: string, query: string, maxResults: number): Promise<PubPackage[]> {
+    const names = this.pubCacheService.searchHostedPackages(query, hostedUrl).slice(0, maxResults);
+    return this.convertSearchResultsToPackages(names.map(name => ({ package: name })), hostedUrl);
+  }
+
+  private async findExactPackage(hostedUrl: string, query: string, token?: vscode.CancellationToken): Promise<PubPackage[]> {
+    const name = query.trim();
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+      return [];
+    }
+    return this.convertSearchResultsToPackages([{ package: name }], hostedUrl, token);
+  }
+
+  /**
+   * Fetches package details from the default package server, or from the
+   * server given by `hostedUrl`, using the hosted repository API.
+   */
+  public async getPackageDetails(
+    packageName: string,
+    hostedUrl?: string,
+    token?: vscode.CancellationToken
+  ): Promise<PubPackageDetails | null> {
+    const url = this.repositoryService.resolveUrl(hostedUrl);
+    const cacheKey = this.repositoryService.isPubDev(url) ? `package:${packageName}` : `package:${url}:${packageName}`;
     
-    if (this.cacheService.isEnabled() && this.cacheService.has(cacheKey)) {
-      return this.cacheService.get<PubPackageDetails>(cacheKey);
+    const fetch = (fetchToken?: vscode.CancellationToken) =>
+      this.fetchPackageDetails(url, packageName, cacheKey, fetchToken);
+
+    if (this.cacheService.isEnabled()) {
+      const cached = this.cacheService.getWithRevalidation<PubPackageDetails>(cacheKey, () => this.revalidate(url, fetch));
+      if (cached) {
+        return cached;
+      }
+    }
+
+    if (!this.shouldUseNetwork(url)) {
+      return this.pubCacheService.getPackageDetails(packageName, url);
     }
 
     try {
-      const response: AxiosResponse<PubPackageDetails> = await axios.get(
-        `${this.baseUrl}/packages/${packageName}`,
-        { timeout: 10000 }
-      );
+      return await fetch(token);
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        throw error;
+      }
+      if (this.isNetworkError(error)) {
+        this.setReachable(url, false);
+        return this.pubCacheService.getPackageDetails(packageName, url);
+      }
+      console.error(`Error getting package details for ${packageName} from ${url}:`, error);
+      return null;
+    }
+  }
+
+  private async fetchPackageDetails(
+    url: string,
+    packageName: string,
+    cacheKey: string,
+    token?: vscode.CancellationToken
+  ): Promise<PubPackageDetails> {
+    // Revalidate what we already have instead of downloading it again
+    const cached = this.cacheService.isEnabled() ? this.cacheService.getEntry<PubPackageDetails>(cacheKey) : null;
+    const headers: Record<string, string> = await this.repositoryService.getHeaders(url);
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const response = await this.get<PubPackageDetails>(
+      `${url}/api/packages/${packageName}`,
+      {
+        headers,
+        timeout: 10000,
+        validateStatus: status => (status >= 200 && status < 300) || (status === 304 && Boolean(cached))
+      },
+      token
+    );
+
+    this.setReachable(url, true);
+    if (response.status === 304 && cached) {
+      this.cacheService.renew(cacheKey);
+      return cached.data;
+    }
+
+    if (this.cacheService.isEnabled()) {
+      // Revalidation is cheap with the validators, so these follow `cacheExpiration`
+      this.cacheService.set(cacheKey, response.data, undefined, {
+        etag: this.getHeader(response, 'etag'),
+        lastModified: this.getHeader(response, 'last-modified')
+      });
+    }
 
-      if (this.cacheService.isEnabled()) {
-        this.cacheService.set(cacheKey, response.data, 3600); // 1 hour cache for package details
+    return response.data;
+  }
+
+  /**
+   * Package details with `metrics.score` filled in from the score endpoint.
+   */
+  public async getPackageDetailsWithMetrics(
+    packageName: string,
+    hostedUrl?: string,
+    token?: vscode.CancellationToken
+  ): Promise<PubPackageDetails | null> {
+    const [details, score] = await Promise.all([
+      this.getPackageDetails(packageName, hostedUrl, token),
+      this.getPackageScore(packageName, hostedUrl, token)
+    ]);
+    if (!details || !score) {
+      return details;
+    }
+    return { ...details, metrics: { ...details.metrics, score } };
+  }
+
+  /**
+   * Pub points, likes, popularity and downloads from pub.dev. The score
+   * endpoint isn't part of the hosted repository spec, so other package
+   * servers get null.
+   */
+  public async getPackageScore(
+    packageName: string,
+    hostedUrl?: string,
+    token?: vscode.CancellationToken
+  ): Promise<PubPackageScore | null> {
+    const url = this.repositoryService.resolveUrl(hostedUrl);
+    if (!this.repositoryService.isPubDev(url)) {
+      return null;
+    }
+
+    const cacheKey = `score:${packageName}`;
+    const fetch = (fetchToken?: vscode.CancellationToken) =>
+      this.fetchPackageScore(url, packageName, cacheKey, fetchToken);
+
+    if (this.cacheService.isEnabled()) {
+      const cached = this.cacheService.getWithRevalidation<PubPackageScore>(cacheKey, () => this.revalidate(url, fetch));
+      if (cached) {
+        return cached;
       }
+    }
 
-      return response.data;
+    if (!this.shouldUseNetwork(url)) {
+      return null;
+    }
+
+    try {
+      return await fetch(token);
     } catch (error) {
-      console.error(`Error getting package details for ${packageName}:`, error);
+      if (error instanceof vscode.CancellationError) {
+        throw error;
+      }
+      if (this.isNetworkError(error)) {
+        this.setReachable(url, false);
+      } else {
+        console.warn(`Error getting score for ${packageName}:`, error);
+      }
       return null;
     }
   }
 
-  public async getLatestVersion(packageName: string): Promise<string | null> {
-    const details = await this.getPackageDetails(packageName);
+  private async fetchPackageScore(
+    url: string,
+    packageName: string,
+    cacheKey: string,
+    token?: vscode.CancellationToken
+  ): Promise<PubPackageScore> {
+    const response = await this.get<PubPackageScore>(
+      `${url}/api/packages/${packageName}/score`,
+      {
+        headers: await this.repositoryService.getHeaders(url),
+        timeout: 10000
+      },
+      token
+    );
+
+    this.setReachable(url, true);
+    if (this.cacheService.isEnabled()) {
+      this.cacheService.set(cacheKey, response.data, 6 * 3600); // 6 hours cache for scores
+    }
+
+    return response.data;
+  }
+
+  /**
+   * README and CHANGELOG of a version downloaded into the pub cache.
+   */
+  public getLocalDocuments(packageName: string, version: string, hostedUrl?: string): LocalPackageDocuments {
+    const url = this.repositoryService.resolveUrl(hostedUrl);
+    return {
+      readme: this.pubCacheService.getHostedFile(packageName, version, 'README.md', url) || undefined,
+      changelog: this.pubCacheService.getHostedFile(packageName, version, 'CHANGELOG.md', url) || undefined
+    };
+  }
+
+  public dispose(): void {
+    this._onDidChangeOfflineState.dispose();
+  }
+
+  /**
+   * Works out which request a cache key was stored for. Keys without a host
+   * belong to pub.dev.
+   */
+  public describeCacheKey(key: string): CachedRequest | null {
+    const pubDevUrl = 'https://pub.dev';
+
+    if (key.startsWith('package:')) {
+      const rest = key.substring('package:'.length);
+      // Package names can't contain ':', so the host is everything before the last one
+      const separator = rest.lastIndexOf(':');
+      return separator > 0
+        ? { kind: 'package', hostedUrl: rest.substring(0, separator), packageName: rest.substring(separator + 1) }
+        : { kind: 'package', hostedUrl: pubDevUrl, packageName: rest };
+    }
+
+    if (key.startsWith('score:')) {
+      return { kind: 'score', hostedUrl: pubDevUrl, packageName: key.substring('score:'.length) };
+    }
+
+    if (key.startsWith('search:')) {
+      const rest = key.substring('search:'.length);
+      const separator = rest.lastIndexOf(':');
+      const page = Number(rest.substring(separator + 1));
+      if (separator < 0 || Number.isNaN(page)) {
+        return null;
+      }
+
+      const queryPart = rest.substring(0, separator);
+      const repository = this.repositoryService.getRepositories()
+        .find(r => !this.repositoryService.isPubDev(r.url) && queryPart.startsWith(`${r.url}:`));
+      return repository
+        ? { kind: 'search', hostedUrl: repository.url, query: queryPart.substring(repository.url.length + 1), page }
+        : { kind: 'search', hostedUrl: pubDevUrl, query: queryPart, page };
+    }
+
+    return null;
+  }
+
+  /**
+   * Fetches a cached request again, bypassing its expiry. Package documents
+   * are revalidated, so an unchanged one is not downloaded again.
+   */
+  public async refreshCacheEntry(key: string): Promise<boolean> {
+    const request = this.describeCacheKey(key);
+    if (!request) {
+      return false;
+    }
+
+    try {
+      if (request.kind === 'package') {
+        await this.fetchPackageDetails(request.hostedUrl, request.packageName, key);
+      } else if (request.kind === 'score') {
+        await this.fetchPackageScore(request.hostedUrl, request.packageName, key);
+      } else {
+        const config = vscode.workspace.getConfiguration('smartPub');
+        const maxResults = config.get<number>('maxSearchResults', 20);
+        await this.fetchSearchResults(request.hostedUrl, request.query, request.page, maxResults, key);
+      }
+      return true;
+    } catch (error) {
+      if (this.isNetworkError(error)) {
+        this.setReachable(request.hostedUrl, false);
+      }
+      console.error(`Error refreshing cache entry ${key}:`, error);
+      return false;
+    }
+  }
+
+  public async getLatestVersion(packageName: string, hostedUrl?: string): Promise<string | null> {
+    const details = await this.getPackageDetails(packageName, hostedUrl);
     return details?.latest?.version || null;
   }
 
-  public async checkForUpdates(dependencies: Record<string, string>): Promise<Record<string, string>> {
-    const updates: Record<string, string> = {};
+  public async getAvailableVersions(packageName: string, hostedUrl?: string): Promise<string[]> {
+    const details = await this.getPackageDetails(packageName, hostedUrl);
+    if (!details) {
+      return [];
+    }
+    return (details.versions || [details.latest]).map(v => v.version);
+  }
+
+  /**
+   * Every published version, newest first, with its publish date, retracted
+   * flag and SDK requirements. The project's `environment.sdk` and, for
+   * Flutter projects, the detected Flutter version tell which versions it
+   * can use.
+   */
+  public async getVersionHistory(
+    packageName: string,
+    hostedUrl?: string,
+    environment: Pick<SdkEnvironment, 'sdkConstraint' | 'flutterVersion'> = {},
+    token?: vscode.CancellationToken
+  ): Promise<PackageVersionInfo[]> {
+    const details = await this.getPackageDetails(packageName, hostedUrl, token);
+    if (!details) {
+      return [];
+    }
+
+    const projectSdk = VersionConstraint.parse(environment.sdkConstraint);
+    return (details.versions || [details.latest])
+      .map(v => {
+        const requiredSdk = parseSdkConstraint(v.pubspec?.environment?.sdk);
+        const requiredFlutter = VersionConstraint.parse(v.pubspec?.environment?.flutter);
+        const sdkFits = projectSdk && requiredSdk ? projectSdk.allowsAny(requiredSdk) : undefined;
+        const flutterFits = environment.flutterVersion && requiredFlutter
+          ? requiredFlutter.allows(environment.flutterVersion)
+          : undefined;
+        const published = v.published ? new Date(v.published) : undefined;
+        const parsed = parseVersion(v.version);
+        return {
+          version: v.version,
+          published: published && !isNaN(published.getTime()) ? published : undefined,
+          retracted: v.retracted === true,
+          isPreRelease: parsed ? isPreRelease(parsed) : false,
+          sdkConstraint: v.pubspec?.environment?.sdk,
+          flutterConstraint: v.pubspec?.environment?.flutter,
+          isSdkCompatible: sdkFits === false || flutterFits === false ? false : sdkFits ?? flutterFits,
+          needsOtherFlutter: flutterFits === false
+        };
+      })
+      .sort((a, b) => compareVersionStrings(b.version, a.version));
+  }
+
+  /**
+   * Works out the Current / Upgradable / Resolvable / Latest columns for a
+   * dependency, skipping retracted versions. Resolvable only takes the
+   * project's `environment:`, the installed SDK and the constraints it
+   * declares on shared dependencies into account. When latest is out of
+   * reach because of the SDK alone, `latestRequires` says what it needs.
+   */
+  public async getVersionColumns(
+    packageName: string,
+    constraint: string,
+    options: VersionColumnOptions = {}
+  ): Promise<VersionColumns> {
+    const columns: VersionColumns = { current: options.lockedVersion };
+    const details = await this.getPackageDetails(packageName, options.hostedUrl, options.token);
+    if (!details) {
+      return columns;
+    }
+
+    const versions = details.versions || [details.latest];
+    // Like pub, never move to a retracted version
+    const available = versions.filter(v => !v.retracted);
+    columns.latest = details.latest.version;
+    columns.upgradable = VersionConstraint.parse(constraint)?.maxAllowed(available.map(v => v.version));
+    columns.resolvable = VersionConstraint.any.maxAllowed(
+      available.filter(v => this.isResolvable(v, options)).map(v => v.version)
+    );
+    columns.latestRequires = this.getSdkBlocker(details.latest, options);
+    columns.isCurrentRetracted = Boolean(options.lockedVersion) &&
+      versions.some(v => v.version === options.lockedVersion && v.retracted);
+
+    return columns;
+  }
+
+  /**
+   * Finds the newest version each dependency can move to under
+   * `environment`, rather than the absolute latest, and the dependencies
+   * whose latest release is only out of reach because of the SDK.
+   */
+  public async checkForUpdates(
+    dependencies: Record<string, string>,
+    hostedUrls: Record<string, string> = {},
+    environment: SdkEnvironment = {}
+  ): Promise<UpdateCheckResult> {
+    const result: UpdateCheckResult = { updates: {}, needsSdkBump: {} };
     const promises = Object.keys(dependencies).map(async (packageName) => {
-      const latestVersion = await this.getLatestVersion(packageName);
-      if (latestVersion && this.isVersionOutdated(dependencies[packageName], latestVersion)) {
-        updates[packageName] = latestVersion;
+      const constraint = dependencies[packageName];
+      const columns = await this.getVersionColumns(packageName, constraint, {
+        ...environment,
+        dependencyConstraints: dependencies,
+        hostedUrl: hostedUrls[packageName]
+      });
+
+      if (!columns.latest || !isVersionOutdated(constraint, columns.latest)) {
+        return;
+      }
+
+      if (columns.resolvable && isVersionOutdated(constraint, columns.resolvable)) {
+        result.updates[packageName] = columns.resolvable;
+      } else if (!columns.latestRequires) {
+        result.updates[packageName] = columns.latest;
+      }
+      if (columns.latestRequires) {
+        result.needsSdkBump[packageName] = { latest: columns.latest, requires: columns.latestRequires };
       }
     });
 
     await Promise.all(promises);
-    return updates;
+    return result;
   }
 
-  private async convertSearchResultsToPackages(searchResults: PubPackageSearchResult[]): Promise<PubPackage[]> {
+  private async convertSearchResultsToPackages(
+    searchResults: PubPackageSearchResult[],
+    hostedUrl: string,
+    token?: vscode.CancellationToken
+  ): Promise<PubPackage[]> {
+    // Packages from the default server are declared without a `hosted:` url
+    const packageHost = this.repositoryService.isDefaultUrl(hostedUrl) ? undefined : hostedUrl;
+
+    // Details are fetched in parallel; the scheduler caps how many run at once.
+    // Search results only carry package names, scores come from their own endpoint
+    const [details, scores] = await Promise.all([
+      Promise.all(searchResults.map(result => this.getPackageDetails(result.package, packageHost, token))),
+      Promise.all(searchResults.map(result => result.score || this.getPackageScore(result.package, packageHost, token)))
+    ]);
+
     const packages: PubPackage[] = [];
-    
-    for (const result of searchResults) {
-      const packageDetails = await this.getPackageDetails(result.package);
+    searchResults.forEach((result, index) => {
+      const packageDetails = details[index];
+      const score = scores[index];
       
       if (packageDetails) {
         const pubPackage: PubPackage = {
@@ -103,17 +580,18 @@ export class PubApiService {
           description: result.description || packageDetails.latest.pubspec.description || '',
           homepage: packageDetails.latest.pubspec.homepage,
           repository: packageDetails.latest.pubspec.repository,
-          popularity: Math.round((result.score?.popularityScore || 0) * 100),
-          likes: result.score?.likeCount || 0,
-          points: result.score?.grantedPoints || 0,
+          popularity: Math.round((score?.popularityScore || 0) * 100),
+          likes: score?.likeCount || 0,
+          points: score?.grantedPoints || 0,
           tags: result.tags || [],
           isFlutterPackage: this.isFlutterPackage(result.tags, packageDetails),
-          isDartPackage: this.isDartPackage(result.tags, packageDetails)
+          isDartPackage: this.isDartPackage(result.tags, packageDetails),
+          hostedUrl: packageHost
         };
         
         packages.push(pubPackage);
       }
-    }
+    });
 
     return packages;
   }
@@ -130,38 +608,121 @@ export class PubApiService {
            Boolean(details.latest.pubspec.environment?.sdk);
   }
 
-  private isVersionOutdated(currentVersion: string, latestVersion: string): boolean {
-    if (!currentVersion || !latestVersion) {
+  private isResolvable(candidate: PubPackageVersion, options: VersionColumnOptions): boolean {
+    if (this.getSdkBlocker(candidate, options)) {
       return false;
     }
-    
-    // Simple version comparison - could be enhanced with semver library
-    const cleanCurrent = currentVersion.replace(/[^0-9.]/g, '');
-    const cleanLatest = latestVersion.replace(/[^0-9.]/g, '');
-    
-    if (!cleanCurrent || !cleanLatest) {
-      return false;
+
+    for (const [name, declared] of Object.entries(options.dependencyConstraints || {})) {
+      const required = candidate.pubspec?.dependencies?.[name];
+      const declaredConstraint = VersionConstraint.parse(declared);
+      const requiredConstraint = typeof required === 'string' ? VersionConstraint.parse(required) : null;
+      if (declaredConstraint && requiredConstraint && !declaredConstraint.allowsAny(requiredConstraint)) {
+        return false;
+      }
     }
-    
-    const currentParts = cleanCurrent.split('.').map(Number);
-    const latestParts = cleanLatest.split('.').map(Number);
-    
-    for (let i = 0; i < Math.max(currentParts.length, latestParts.length); i++) {
-      const current = currentParts[i] || 0;
-      const latest = latestParts[i] || 0;
-      
-      if (latest > current) {
-        return true;
+
+    return true;
+  }
+
+  /**
+   * Describes the SDK requirement of a version that the project's
+   * `environment:` or the installed SDK doesn't meet, or undefined when it
+   * fits.
+   */
+  private getSdkBlocker(candidate: PubPackageVersion, environment: SdkEnvironment): string | undefined {
+    const requiredSdkText = candidate.pubspec?.environment?.sdk;
+    const requiredSdk = parseSdkConstraint(requiredSdkText);
+    if (requiredSdk) {
+      const projectSdk = VersionConstraint.parse(environment.sdkConstraint);
+      if (projectSdk && !projectSdk.allowsAny(requiredSdk)) {
+        return `Dart SDK ${requiredSdkText}`;
       }
-      if (current > latest) {
-        return false;
+      if (environment.dartVersion && parseVersion(environment.dartVersion) && !requiredSdk.allows(environment.dartVersion)) {
+        return `Dart SDK ${requiredSdkText} (installed ${environment.dartVersion})`;
       }
     }
-    
-    return false;
+
+    const requiredFlutterText = candidate.pubspec?.environment?.flutter;
+    const requiredFlutter = VersionConstraint.parse(requiredFlutterText);
+    if (requiredFlutter) {
+      const projectFlutter = VersionConstraint.parse(environment.flutterConstraint);
+      if (projectFlutter && !projectFlutter.allowsAny(requiredFlutter)) {
+        return `Flutter ${requiredFlutterText}`;
+      }
+      if (environment.flutterVersion && parseVersion(environment.flutterVersion) && !requiredFlutter.allows(environment.flutterVersion)) {
+        return `Flutter ${requiredFlutterText} (installed ${environment.flutterVersion})`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * GET through the request scheduler. Requests for the same url, params and
+   * validators share one HTTP call while it is in flight.
+   */
+  private get<T>(url: string, config: AxiosRequestConfig, token?: vscode.CancellationToken): Promise<AxiosResponse<T>> {
+    const headers: Record<string, any> = config.headers || {};
+    const validators = [headers['If-None-Match'], headers['If-Modified-Since']].filter(Boolean).join('|');
+    const key = `${url}?${JSON.stringify(config.params || {})}#${validators}`;
+    return this.scheduler.schedule(key, signal => axios.get<T>(url, { ...config, signal }), token);
+  }
+
+  /**
+   * Background refresh of an expired cache entry, skipped while the host is
+   * unreachable.
+   */
+  private async revalidate(url: string, fetch: () => Promise<unknown>): Promise<void> {
+    if (!this.shouldUseNetwork(url)) {
+      return;
+    }
+
+    try {
+      await fetch();
+    } catch (error) {
+      if (this.isNetworkError(error)) {
+        this.setReachable(url, false);
+      }
+      throw error;
+    }
+  }
+
+  private getHeader(response: AxiosResponse, name: string): string | undefined {
+    const value = response.headers[name];
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  private shouldUseNetwork(url: string): boolean {
+    const retryAt = this.unreachableHosts.get(url);
+    return retryAt === undefined || Date.now() >= retryAt;
+  }
+
+  private setReachable(url: string, reachable: boolean): void {
+    const wasOffline = this.isOffline();
+    if (reachable) {
+      this.unreachableHosts.delete(url);
+    } else {
+      this.unreachableHosts.set(url, Date.now() + PubApiService.offlineRetryMs);
+    }
+
+    if (wasOffline !== this.isOffline()) {
+      this._onDidChangeOfflineState.fire(this.isOffline());
+    }
+  }
+
+  /**
+   * No response at all, as opposed to an HTTP error from a reachable server.
+   */
+  private isNetworkError(error: any): boolean {
+    const networkCodes = ['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'ENETUNREACH'];
+    return !error?.response && (Boolean(error?.request) || networkCodes.includes(error?.code));
   }
 
   private getErrorMessage(error: any): string {
+    if (error.response?.status === 401 || error.response?.status === 403) {
+      return `HTTP ${error.response.status}: authentication required, add a token with "Smart Pub: Add Repository Token"`;
+    }
     if (error.response) {
       return `HTTP ${error.response.status}: ${error.response.statusText}`;
     }
@@ -0,0 +1,209 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { parse as parseYaml } from 'yaml';
+import { PubPackageDetails, PubPackagePubspec, PubPackageVersion } from '../types/pub-types';
+import { compareVersionStrings, parseVersion, VersionConstraint } from '../utils/dart-semver';
+
+export class PubCacheService {
+  private readonly defaultHostedUrl = 'https://pub.dev';
+
+  /**
+   * Location of the pub cache, honouring PUB_CACHE like the dart tool does.
+   */
+  public getCacheDir(): string {
+    if (process.env.PUB_CACHE) {
+      return process.env.PUB_CACHE;
+    }
+    if (process.platform === 'win32' && process.env.LOCALAPPDATA) {
+      return path.join(process.env.LOCALAPPDATA, 'Pub', 'Cache');
+    }
+    return path.join(os.homedir(), '.pub-cache');
+  }
+
+  /**
+   * Directories that may hold packages downloaded from the given host. Older
+   * SDKs stored pub.dev packages under `pub.dartlang.org`.
+   */
+  public getHostedDirs(hostedUrl: string = this.defaultHostedUrl): string[] {
+    const hostedRoot = path.join(this.getCacheDir(), 'hosted');
+    const dirs = [path.join(hostedRoot, this.urlToDirectory(hostedUrl))];
+    if (this.isDefaultHost(hostedUrl)) {
+      dirs.push(path.join(hostedRoot, 'pub.dartlang.org'));
+    }
+    return dirs;
+  }
+
+  public getHostedPackageDir(name: string, version: string, hostedUrl?: string): string | null {
+    for (const hostedDir of this.getHostedDirs(hostedUrl)) {
+      const packageDir = path.join(hostedDir, `${name}-${version}`);
+      if (fs.existsSync(packageDir)) {
+        return packageDir;
+      }
+    }
+    return null;
+  }
+
+  public readHostedPubspec(name: string, version: string, hostedUrl?: string): PubPackagePubspec | null {
+    const packageDir = this.getHostedPackageDir(name, version, hostedUrl);
+    return packageDir ? this.readPubspec(packageDir) : null;
+  }
+
+  /**
+   * Versions of a package downloaded into the cache, oldest first.
+   */
+  public listHostedVersions(name: string, hostedUrl?: string): string[] {
+    const prefix = `${name}-`;
+    const versions = new Set<string>();
+
+    for (const hostedDir of this.getHostedDirs(hostedUrl)) {
+      for (const entry of this.readDirectory(hostedDir)) {
+        // Package names can't contain '-', so everything after it is the version
+        if (entry.startsWith(prefix) && parseVersion(entry.substring(prefix.length))) {
+          versions.add(entry.substring(prefix.length));
+        }
+      }
+    }
+
+    return Array.from(versions).sort(compareVersionStrings);
+  }
+
+  /**
+   * Names of the packages downloaded from a host that contain `query`.
+   */
+  public searchHostedPackages(query: string, hostedUrl?: string): string[] {
+    const needle = query.trim().toLowerCase();
+    const names = new Set<string>();
+
+    for (const hostedDir of this.getHostedDirs(hostedUrl)) {
+      for (const entry of this.readDirectory(hostedDir)) {
+        const separator = entry.indexOf('-');
+        const name = separator > 0 ? entry.substring(0, separator) : '';
+        if (name && name.toLowerCase().includes(needle)) {
+          names.add(name);
+        }
+      }
+    }
+
+    return Array.from(names).sort();
+  }
+
+  /**
+   * Builds package details without the network. Pub keeps the last version
+   * listing it fetched in `hosted/<host>/.cache/<name>-versions.json`; when
+   * that is missing, the downloaded versions are used instead.
+   */
+  public getPackageDetails(name: string, hostedUrl?: string): PubPackageDetails | null {
+    const listing = this.readVersionListing(name, hostedUrl);
+    if (listing) {
+      return listing;
+    }
+
+    const versions: PubPackageVersion[] = [];
+    for (const version of this.listHostedVersions(name, hostedUrl)) {
+      const pubspec = this.readHostedPubspec(name, version, hostedUrl);
+      if (pubspec) {
+        versions.push({ version, pubspec });
+      }
+    }
+
+    const latestVersion = VersionConstraint.any.maxAllowed(versions.map(v => v.version));
+    const latest = versions.find(v => v.version === latestVersion);
+    return latest ? { name, latest, versions } : null;
+  }
+
+  /**
+   * Path of a file such as README.md or CHANGELOG.md in a downloaded package.
+   */
+  public getHostedFile(name: string, version: string, fileName: string, hostedUrl?: string): string | null {
+    const packageDir = this.getHostedPackageDir(name, version, hostedUrl);
+    if (!packageDir) {
+      return null;
+    }
+
+    // Match case-insensitively, packages ship Readme.md, readme.md, ...
+    const match = this.readDirectory(packageDir).find(entry => entry.toLowerCase() === fileName.toLowerCase());
+    return match ? path.join(packageDir, match) : null;
+  }
+
+  /**
+   * Reads the pubspec of a git dependency checked out by pub, using the
+   * `description` block of its pubspec.lock entry.
+   */
+  public readGitPubspec(description: any): PubPackagePubspec | null {
+    const url = typeof description?.url === 'string' ? description.url : '';
+    const resolvedRef = description?.['resolved-ref'];
+    if (!url || !resolvedRef) {
+      return null;
+    }
+
+    const repoName = path.basename(url.replace(/\/+$/, '')).replace(/\.git$/, '');
+    const checkoutDir = path.join(this.getCacheDir(), 'git', `${repoName}-${resolvedRef}`);
+    return this.readPubspec(path.join(checkoutDir, description.path || '.'));
+  }
+
+  public readPubspec(packageDir: string): PubPackagePubspec | null {
+    const pubspecPath = path.join(packageDir, 'pubspec.yaml');
+    try {
+      if (!fs.existsSync(pubspecPath)) {
+        return null;
+      }
+      return parseYaml(fs.readFileSync(pubspecPath, 'utf8'));
+    } catch (error) {
+      console.warn(`Failed to read ${pubspecPath}:`, error);
+      return null;
+    }
+  }
+
+  private readVersionListing(name: string, hostedUrl?: string): PubPackageDetails | null {
+    for (const hostedDir of this.getHostedDirs(hostedUrl)) {
+      const listingPath = path.join(hostedDir, '.cache', `${name}-versions.json`);
+      try {
+        if (!fs.existsSync(listingPath)) {
+          continue;
+        }
+        const listing = JSON.parse(fs.readFileSync(listingPath, 'utf8'));
+        if (listing?.latest?.version && Array.isArray(listing.versions)) {
+          return { name, latest: listing.latest, versions: listing.versions };
+        }
+      } catch (error) {
+        console.warn(`Failed to read ${listingPath}:`, error);
+      }
+    }
+    return null;
+  }
+
+  private readDirectory(dir: string): string[] {
+    try {
+      return fs.existsSync(dir) ? fs.readdirSync(dir) : [];
+    } catch (error) {
+      console.warn(`Failed to list ${dir}:`, error);
+      return [];
+    }
+  }
+
+  private isDefaultHost(hostedUrl: string): boolean {
+    return /^https:\/\/(pub\.dev|pub\.dartlang\.org)\/?$/.test(hostedUrl);
+  }
+
+  /**
+   * Mirrors how pub names the per-host directory: the https scheme is dropped
+   * and reserved characters are escaped as `%<char code>`.
+   */
+  private urlToDirectory(hostedUrl: string): string {
+    if (this.isDefaultHost(hostedUrl)) {
+      return 'pub.dev';
+    }
+
+    const url = hostedUrl
+      .replace(/\/+$/, '')
+      .replace(/^(https?:\/\/)(127\.0\.0\.1|\[::1\]|localhost)?/, (_match, scheme: string, localhost?: string) => {
+        if (localhost) {
+          return 'localhost';
+        }
+        return scheme === 'https://' ? '' : scheme;
+      });
+
+    return url.replace(/[<>:"\\/|?*%]/g, char => `%${char.charCodeAt(0)}`);
+  }
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+export interface PackageRepository {
+  url: string;
+  name?: string;
+}
+
+interface PubTokenEntry {
+  url: string;
+  token?: string;
+  env?: string;
+}
+
+/**
+ * Knows which package servers the workspace uses and how to authenticate
+ * against them. The default server follows PUB_HOSTED_URL like the dart
+ * tool does; extra servers come from the `smartPub.repositories` setting.
+ * Bearer tokens are read from VS Code SecretStorage first, then from the
+ * `pub-tokens.json` file written by `dart pub token add`.
+ */
+export class RepositoryService {
+  private static readonly pubDevUrl = 'https://pub.dev';
+  private static readonly secretPrefix = 'smartPub.token:';
+
+  constructor(private readonly secrets: vscode.SecretStorage) {}
+
+  public getDefaultUrl(): string {
+    return this.normalizeUrl(process.env.PUB_HOSTED_URL || RepositoryService.pubDevUrl);
+  }
+
+  public isDefaultUrl(url: string | undefined): boolean {
+    return !url || this.normalizeUrl(url) === this.getDefaultUrl();
+  }
+
+  public isPubDev(url: string): boolean {
+    return this.normalizeUrl(url) === RepositoryService.pubDevUrl;
+  }
+
+  /**
+   * The server a dependency is fetched from: its own `hosted:` url, or the
+   * default server.
+   */
+  public resolveUrl(hostedUrl?: string): string {
+    return hostedUrl ? this.normalizeUrl(hostedUrl) : this.getDefaultUrl();
+  }
+
+  /**
+   * The default server followed by the configured ones, without duplicates.
+   */
+  public getRepositories(): PackageRepository[] {
+    const config = vscode.workspace.getConfiguration('smartPub');
+    const configured = config.get<Array<PackageRepository | string>>('repositories', []);
+    const repositories: PackageRepository[] = [{ url: this.getDefaultUrl() }];
+
+    for (const entry of configured) {
+      const repository = typeof entry === 'string' ? { url: entry } : entry;
+      if (!repository?.url) {
+        continue;
+      }
+      const url = this.normalizeUrl(repository.url);
+      if (!repositories.some(r => r.url === url)) {
+        repositories.push({ url, name: repository.name });
+      }
+    }
+
+    return repositories;
+  }
+
+  public async getHeaders(url: string): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { Accept: 'application/vnd.pub.v2+json' };
+    const token = await this.getToken(url);
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    return headers;
+  }
+
+  public async getToken(url: string): Promise<string | undefined> {
+    const normalized = this.normalizeUrl(url);
+    const stored = await this.secrets.get(`${RepositoryService.secretPrefix}${normalized}`);
+    if (stored) {
+      return stored;
+    }
+
+    // pub matches tokens by url prefix, so a token for a server covers its sub paths
+    const entry = this.readPubTokens()
+      .filter(e => normalized === e.url || normalized.startsWith(`${e.url}/`))
+      .sort((a, b) => b.url.length - a.url.length)[0];
+    if (!entry) {
+      return undefined;
+    }
+    return entry.token || (entry.env ? process.env[entry.env] : undefined);
+  }
+
+  public async setToken(url: string, token: string): Promise<void> {
+    await this.secrets.store(`${RepositoryService.secretPrefix}${this.normalizeUrl(url)}`, token);
+  }
+
+  public async deleteToken(url: string): Promise<void> {
+    await this.secrets.delete(`${RepositoryService.secretPrefix}${this.normalizeUrl(url)}`);
+  }
+
+  public normalizeUrl(url: string): string {
+    const trimmed = url.trim().replace(/\/+$/, '');
+    return /^https?:\/\/pub\.dartlang\.org$/.test(trimmed) ? RepositoryService.pubDevUrl : trimmed;
+  }
+
+  /**
+   * Location of `pub-tokens.json`, the same file `dart pub token` manages.
+   */
+  private getPubTokensPath(): string {
+    if (process.platform === 'win32') {
+      return path.join(process.env.APPDATA || os.homedir(), 'dart', 'pub-tokens.json');
+    }
+    if (process.platform === 'darwin') {
+      return path.join(os.homedir(), 'Library', 'Application Support', 'dart', 'pub-tokens.json');
+    }
+    const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+    return path.join(configHome, 'dart', 'pub-tokens.json');
+  }
+
+  private readPubTokens(): PubTokenEntry[] {
+    const tokensPath = this.getPubTokensPath();
+    try {
+      if (!fs.existsSync(tokensPath)) {
+        return [];
+      }
+      const content = JSON.parse(fs.readFileSync(tokensPath, 'utf8'));
+      const hosted: PubTokenEntry[] = Array.isArray(content?.hosted) ? content.hosted : [];
+      return hosted
+        .filter(entry => typeof entry?.url === 'string')
+        .map(entry => ({ ...entry, url: this.normalizeUrl(entry.url) }));
+    } catch (error) {
+      console.warn(`Failed to read ${tokensPath}:`, error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+
+export interface RequestSchedulerOptions {
+  /** Requests allowed to run at the same time */
+  maxConcurrent: number;
+  /** Retries after the first attempt for 429 and 5xx responses */
+  maxRetries: number;
+  /** Delay before the first retry, doubled on each further retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, including Retry-After */
+  maxDelayMs: number;
+}
+
+type RequestTask<T> = (signal: AbortSignal) => Promise<T>;
+
+interface Job {
+  key: string;
+  task: RequestTask<any>;
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  waiters: number;
+  promise: Promise<any>;
+  resolve: (value: any) => void;
+  reject: (reason: any) => void;
+}
+
+/**
+ * Runs HTTP requests through a bounded pool. Identical requests in flight
+ * share one job, 429 and 5xx responses are retried with exponential backoff
+ * (honouring Retry-After), and each caller can give up through its own
+ * cancellation token. The underlying request is only aborted once every
+ * caller sharing it has cancelled.
+ */
+export class RequestScheduler {
+  private readonly queue: Job[] = [];
+  private readonly inFlight = new Map<string, Job>();
+  private running = 0;
+
+  constructor(private readonly options: RequestSchedulerOptions) {}
+
+  public schedule<T>(key: string, task: RequestTask<T>, token?: vscode.CancellationToken): Promise<T> {
+    if (token?.isCancellationRequested) {
+      return Promise.reject(new vscode.CancellationError());
+    }
+
+    let job = this.inFlight.get(key);
+    if (!job) {
+      job = this.createJob(key, task);
+      this.inFlight.set(key, job);
+      this.queue.push(job);
+      this.drain();
+    }
+    job.waiters++;
+
+    return this.waitFor<T>(job, token);
+  }
+
+  private createJob(key: string, task: RequestTask<any>): Job {
+    const job = { key, task, controller: new AbortController(), waiters: 0 } as Job;
+    job.promise = new Promise((resolve, reject) => {
+      job.resolve = resolve;
+      job.reject = reject;
+    });
+    // Callers attach their own handlers; this keeps an abandoned job quiet
+    job.promise.catch(() => undefined);
+    return job;
+  }
+
+  private waitFor<T>(job: Job, token?: vscode.CancellationToken): Promise<T> {
+    if (!token) {
+      return job.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      const subscription = token.onCancellationRequested(() => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        this.release(job);
+        reject(new vscode.CancellationError());
+      });
+
+      job.promise.then(
+        value => {
+          subscription.dispose();
+          if (!settled) {
+            settled = true;
+            resolve(value);
+          }
+        },
+        error => {
+          subscription.dispose();
+          if (!settled) {
+            settled = true;
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Drops a cancelled caller; the job goes away when nobody waits for it.
+   */
+  private release(job: Job): void {
+    job.waiters--;
+    if (job.waiters > 0) {
+      return;
+    }
+
+    this.inFlight.delete(job.key);
+    const index = this.queue.indexOf(job);
+    if (index >= 0) {
+      this.queue.splice(index, 1);
+    }
+    job.controller.abort();
+    job.reject(new vscode.CancellationError());
+  }
+
+  private drain(): void {
+    while (this.running < this.options.maxConcurrent && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      this.running++;
+
+      this.run(job)
+        .then(job.resolve, job.reject)
+        .finally(() => {
+          this.running--;
+          if (this.inFlight.get(job.key) === job) {
+            this.inFlight.delete(job.key);
+          }
+          this.drain();
+        });
+    }
+  }
+
+  private async run(job: Job): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await job.task(job.controller.signal);
+      } catch (error) {
+        if (job.controller.signal.aborted || attempt >= this.options.maxRetries || !this.isRetryable(error)) {
+          throw error;
+        }
+        await this.delay(this.getBackoff(error, attempt), job.controller.signal);
+      }
+    }
+  }
+
+  private isRetryable(error: any): boolean {
+    const status = error?.response?.status;
+    return status === 429 || (typeof status === 'number' && status >= 500);
+  }
+
+  private getBackoff(error: any, attempt: number): number {
+    // Retry-After is either a number of seconds or an HTTP date
+    const retryAfter = error?.response?.headers?.['retry-after'];
+    if (retryAfter !== undefined) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+      if (delay >= 0) {
+        return Math.min(delay, this.options.maxDelayMs);
+      }
+    }
+
+    const exponential = this.options.baseDelayMs * 2 ** attempt;
+    const jitter = Math.random() * this.options.baseDelayMs;
+    return Math.min(exponential + jitter, this.options.maxDelayMs);
+  }
+
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done);
+
+      function done(): void {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      }
+    });
+  }
+}
@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InstalledSdk, ProjectSdk, SdkSource, WorkspaceProject } from '../types/pub-types';
+
+interface SdkLocation {
+  source: SdkSource;
+  executable: string;
+  fvmVersion?: string;
+}
+
+/**
+ * Finds the SDK each project runs pub with and the Dart and Flutter versions
+ * it provides, so version suggestions can skip releases it can't resolve.
+ *
+ * A project pinned with FVM uses its pinned Flutter SDK, otherwise the
+ * `dart.flutterSdkPath` / `dart.sdkPath` settings apply, and finally the
+ * `flutter` and `dart` on PATH.
+ */
+export class SdkService {
+  private static readonly timeoutMs = 30000;
+
+  /** Detected versions by executable */
+  private readonly installed = new Map<string, Promise<InstalledSdk>>();
+  /** Located SDKs by project, see `getLocationKey` */
+  private readonly locations = new Map<string, SdkLocation>();
+
+  /**
+   * The SDK is located once per project and its versions detected once per
+   * executable; `refresh` starts over, e.g. after an SDK upgrade or when the
+   * FVM config or SDK settings change.
+   */
+  public async getProjectSdk(project: Pick<WorkspaceProject, 'path' | 'usesFlutter'>): Promise<ProjectSdk> {
+    const key = this.getLocationKey(project);
+    let location = this.locations.get(key);
+    if (!location) {
+      location = this.locate(project);
+      this.locations.set(key, location);
+    }
+
+    let installed = this.installed.get(location.executable);
+    if (!installed) {
+      installed = project.usesFlutter ? this.detectFlutter(location.executable) : this.detectDart(location.executable);
+      this.installed.set(location.executable, installed);
+    }
+
+    return { ...location, ...(await installed) };
+  }
+
+  public refresh(): void {
+    this.installed.clear();
+    this.locations.clear();
+  }
+
+  /**
+   * The executable to spawn with `shell` on Windows, where a path with
+   * spaces has to be quoted.
+   */
+  public getCommand(executable: string): string {
+    return process.platform === 'win32' && executable.includes(' ') ? `"${executable}"` : executable;
+  }
+
+  private getLocationKey(project: Pick<WorkspaceProject, 'path' | 'usesFlutter'>): string {
+    return `${project.usesFlutter ? 'flutter' : 'dart'}:${project.path}`;
+  }
+
+  private locate(project: Pick<WorkspaceProject, 'path' | 'usesFlutter'>): SdkLocation {
+    const fvmVersion = this.findFvmVersion(project.path);
+    const fvmRoot = fvmVersion ? this.findFvmSdk(fvmVersion.configDir, fvmVersion.version) : undefined;
+    if (fvmRoot) {
+      return { source: 'fvm', executable: this.getExecutable(fvmRoot, project.usesFlutter, true), fvmVersion: fvmVersion?.version };
+    }
+    if (fvmVersion) {
+      console.warn(`FVM pins Flutter ${fvmVersion.version} for ${project.path}, but it isn't installed`);
+    }
+
+    const config = vscode.workspace.getConfiguration('dart', vscode.Uri.file(project.path));
+    const flutterSdkPath = this.resolveSettingPath(config.get<string>('flutterSdkPath'), project.path);
+    if (flutterSdkPath) {
+      return { source: 'setting', executable: this.getExecutable(flutterSdkPath, project.usesFlutter, true), fvmVersion: fvmVersion?.version };
+    }
+
+    // A pure Dart package only needs a Dart SDK
+    const dartSdkPath = project.usesFlutter ? undefined : this.resolveSettingPath(config.get<string>('sdkPath'), project.path);
+    if (dartSdkPath) {
+      return { source: 'setting', executable: this.getExecutable(dartSdkPath, false, false), fvmVersion: fvmVersion?.version };
+    }
+
+    return { source: 'path', executable: project.usesFlutter ? 'flutter' : 'dart', fvmVersion: fvmVersion?.version };
+  }
+
+  /**
+   * Looks for an FVM config in the project or any folder above it, so a
+   * monorepo can pin its version once at the root. FVM 3 writes `.fvmrc`,
+   * older versions `.fvm/fvm_config.json`.
+   */
+  private findFvmVersion(projectPath: string): { configDir: string; version: string } | undefined {
+    let dir = projectPath;
+    while (true) {
+      const version = this.readJsonField(path.join(dir, '.fvmrc'), 'flutter')
+        ?? this.readJsonField(path.join(dir, '.fvm', 'fvm_config.json'), 'flutterSdkVersion');
+      if (version) {
+        return { configDir: dir, version };
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * The SDK folder of a pinned version: the `.fvm/flutter_sdk` link next to
+   * the config, or the version in FVM's cache.
+   */
+  private findFvmSdk(configDir: string, version: string): string | undefined {
+    const cacheDir = process.env.FVM_CACHE_PATH
+      || process.env.FVM_HOME
+      || (process.platform === 'win32' && process.env.LOCALAPPDATA
+        ? path.join(process.env.LOCALAPPDATA, 'fvm')
+        : path.join(os.homedir(), 'fvm'));
+
+    const candidates = [
+      path.join(configDir, '.fvm', 'flutter_sdk'),
+      path.join(configDir, '.fvm', 'versions', version),
+      path.join(cacheDir, 'versions', version)
+    ];
+    return candidates.find(candidate => fs.existsSync(this.getExecutable(candidate, true, true)));
+  }
+
+  /**
+   * A Flutter SDK ships both `flutter` and a `dart` wrapper in `bin/`; on
+   * Windows they are batch files, while a standalone Dart SDK has `dart.exe`.
+   */
+  private getExecutable(sdkRoot: string, flutter: boolean, isFlutterSdk: boolean): string {
+    const name = flutter ? 'flutter' : 'dart';
+    if (process.platform !== 'win32') {
+      return path.join(sdkRoot, 'bin', name);
+    }
+    return path.join(sdkRoot, 'bin', isFlutterSdk ? `${name}.bat` : `${name}.exe`);
+  }
+
+  /**
+   * Settings may use `~` or a path relative to the workspace folder.
+   */
+  private resolveSettingPath(value: string | undefined, projectPath: string): string | undefined {
+    if (!value?.trim()) {
+      return undefined;
+    }
+
+    let resolved = value.trim().replace(/^~(?=$|[\\/])/, os.homedir());
+    if (!path.isAbsolute(resolved)) {
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectPath));
+      resolved = path.join(folder?.uri.fsPath ?? projectPath, resolved);
+    }
+    return resolved;
+  }
+
+  private readJsonField(filePath: string, field: string): string | undefined {
+    try {
+      const value = JSON.parse(fs.readFileSync(filePath, 'utf8'))?.[field];
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async detectFlutter(executable: string): Promise<InstalledSdk> {
+    // `flutter --version --machine` reports both the framework and its Dart SDK
+    const output = await this.run(executable, ['--version', '--machine']);
+    if (output) {
+      try {
+        const info = JSON.parse(output.substring(output.indexOf('{'), output.lastIndexOf('}') + 1));
+        return {
+          flutterVersion: this.cleanVersion(info.frameworkVersion),
+          dartVersion: this.cleanVersion(info.dartSdkVersion)
+        };
+      } catch (error) {
+        console.warn(`Unexpected output from ${executable} --version --machine:`, error);
+      }
+    }
+
+    // Fall back to the Dart SDK next to it, which is all the version checks need
+    return this.detectDart(executable.replace(/flutter(\.bat)?$/, 'dart$1'));
+  }
+
+  private async detectDart(executable: string): Promise<InstalledSdk> {
+    const output = await this.run(executable, ['--version']);
+    const match = output?.match(/Dart SDK version:\s*(\S+)/);
+    return { dartVersion: this.cleanVersion(match?.[1]) };
+  }
+
+  /**
+   * Pre-release SDKs report e.g. `3.5.0 (build 3.5.0-180.3.beta)`; keep the
+   * version only.
+   */
+  private cleanVersion(version: unknown): string | undefined {
+    if (typeof version !== 'string') {
+      return undefined;
+    }
+    const match = version.match(/\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?/);
+    return match ? match[0] : undefined;
+  }
+
+  private run(executable: string, args: string[]): Promise<string | null> {
+    return new Promise((resolve) => {
+      cp.execFile(this.getCommand(executable), args, {
+        timeout: SdkService.timeoutMs,
+        shell: process.platform === 'win32'
+      }, (error, stdout, stderr) => {
+        if (error) {
+          resolve(null);
+          return;
+        }
+        // Older Dart SDKs print the version to stderr
+        resolve(stdout.trim() ? stdout : stderr);
+      });
+    });
+  }
+}
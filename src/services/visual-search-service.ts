@@ -177,7 +177,8 @@ export class VisualSearchService {
       selectedProject.path,
       packageData.name,
       `^${packageData.version}`,
-      dependencyType.isDev
+      dependencyType.isDev,
+      packageData.hostedUrl
     );
 
     if (success) {
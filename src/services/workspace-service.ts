@@ -1,66 +1,120 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
-import { WorkspaceProject, DependencyInfo } from '../types/pub-types';
+import * as cp from 'child_process';
+import { parse as parseYaml } from 'yaml';
+import { WorkspaceProject, DependencyInfo, PubspecLock, SdkEnvironment, UpdateCheckResult } from '../types/pub-types';
 import { PubApiService } from './pub-api-service';
+import { LockfileService } from './lockfile-service';
+import { SdkService } from './sdk-service';
+import { isVersionOutdated, parseVersion, VersionConstraint } from '../utils/dart-semver';
+import { describeDependencySpec, isHostedSpec, parseDependencySpec } from '../utils/dependency-spec';
+import { applyEdits, hasDependency, PubspecTextEdit, removeDependencyEdits, setDependencyEdits, setEnvironmentEdits } from '../utils/pubspec-editor';
+
+export interface PubGetResult {
+  projectPath: string;
+  success: boolean;
+  cancelled: boolean;
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export interface DependencyChange {
+  packageName: string;
+  /** New version or constraint; ignored when removing */
+  version?: string;
+  isDev?: boolean;
+  remove?: boolean;
+  /** Package server to declare with `hosted:`, unset for the default one */
+  hostedUrl?: string;
+}
+
+export interface DependencyUpdate {
+  projectPath: string;
+  dependency: DependencyInfo;
+}
 
 export class WorkspaceService {
   private readonly pubApiService: PubApiService;
+  private readonly lockfileService: LockfileService;
+  private readonly sdkService: SdkService;
   private projects: WorkspaceProject[] = [];
   private fileWatchers: vscode.FileSystemWatcher[] = [];
-
-  constructor(pubApiService: PubApiService) {
+  private readonly _onDidChangeProjects = new vscode.EventEmitter<void>();
+  readonly onDidChangeProjects: vscode.Event<void> = this._onDidChangeProjects.event;
+  private readonly _onDidFailPubGet = new vscode.EventEmitter<PubGetResult>();
+  readonly onDidFailPubGet: vscode.Event<PubGetResult> = this._onDidFailPubGet.event;
+  private readonly _onDidUpdateDependency = new vscode.EventEmitter<DependencyUpdate>();
+  readonly onDidUpdateDependency: vscode.Event<DependencyUpdate> = this._onDidUpdateDependency.event;
+  private readonly _onDidFinishVersionCheck = new vscode.EventEmitter<string>();
+  readonly onDidFinishVersionCheck: vscode.Event<string> = this._onDidFinishVersionCheck.event;
+  private readonly _onDidDetectSdk = new vscode.EventEmitter<WorkspaceProject>();
+  readonly onDidDetectSdk: vscode.Event<WorkspaceProject> = this._onDidDetectSdk.event;
+  /** Running background version checks by project path */
+  private readonly versionChecks = new Map<string, vscode.CancellationTokenSource>();
+  /** Content of the pubspec.yaml files the extension saved and runs pub get for itself */
+  private readonly ownSaves = new Map<string, string>();
+  /** Last pub get started per project path */
+  private readonly pubGets = new Map<string, Promise<void>>();
+  private readonly pubOutputChannel = vscode.window.createOutputChannel('Smart Pub Manager - Pub');
+
+  constructor(pubApiService: PubApiService, lockfileService: LockfileService, sdkService: SdkService) {
     this.pubApiService = pubApiService;
+    this.lockfileService = lockfileService;
+    this.sdkService = sdkService;
   }
 
+  /**
+   * Scans the workspace for projects without waiting for the network;
+   * published versions are filled in afterwards by a background check.
+   */
   public async initialize(): Promise<void> {
     await this.scanForFlutterProjects();
     this.setupFileWatchers();
+    this.detectSdks(this.projects);
+    this.checkVersions(this.projects);
   }
 
   public dispose(): void {
     this.fileWatchers.forEach(watcher => watcher.dispose());
     this.fileWatchers = [];
+    this.versionChecks.forEach(check => check.cancel());
+    this.versionChecks.clear();
+    this._onDidChangeProjects.dispose();
+    this._onDidFailPubGet.dispose();
+    this._onDidUpdateDependency.dispose();
+    this._onDidFinishVersionCheck.dispose();
+    this._onDidDetectSdk.dispose();
+    this.pubOutputChannel.dispose();
   }
 
   public getProjects(): WorkspaceProject[] {
     return this.projects;
   }
 
+  /**
+   * Adds a line to the pub output channel, e.g. when handling a pub get
+   * failure went wrong itself.
+   */
+  public appendPubOutput(line: string): void {
+    this.pubOutputChannel.appendLine(line);
+  }
+
   public async addDependency(
     projectPath: string, 
     packageName: string, 
     version: string, 
-    isDev: boolean = false
+    isDev: boolean = false,
+    hostedUrl?: string
   ): Promise<boolean> {
     try {
-      const pubspecPath = path.join(projectPath, 'pubspec.yaml');
-      
-      if (!fs.existsSync(pubspecPath)) {
-        vscode.window.showErrorMessage(`pubspec.yaml not found in ${projectPath}`);
+      const applied = await this.applyDependencyChanges(projectPath, [
+        { packageName, version, isDev, hostedUrl }
+      ]);
+      if (!applied) {
         return false;
       }
-
-      const content = fs.readFileSync(pubspecPath, 'utf8');
-      const pubspec = parseYaml(content);
-
-      const dependencySection = isDev ? 'dev_dependencies' : 'dependencies';
-      
-      if (!pubspec[dependencySection]) {
-        pubspec[dependencySection] = {};
-      }
-
-      pubspec[dependencySection][packageName] = this.formatVersion(version);
-
-      const newContent = stringifyYaml(pubspec, {
-        indent: 2
-      });
-
-      fs.writeFileSync(pubspecPath, newContent, 'utf8');
-      
-      await this.runPubGet(projectPath);
-      await this.refreshProject(projectPath);
       
       vscode.window.showInformationMessage(
         `Added ${packageName}:${version} to ${isDev ? 'dev_dependencies' : 'dependencies'}`
@@ -83,35 +137,51 @@ export class WorkspaceService {
     return this.addDependency(projectPath, packageName, newVersion, isDev);
   }
 
+  /**
+   * Updates several dependencies in one undoable edit. With `preview` the
+   * changes are shown in the refactor preview before they are applied.
+   */
+  public async updateDependencies(
+    projectPath: string,
+    updates: Record<string, string>,
+    preview: boolean = true
+  ): Promise<boolean> {
+    const project = this.projects.find(p => p.path === projectPath);
+    const changes = Object.entries(updates).map(([packageName, version]) => ({
+      packageName,
+      version,
+      isDev: project?.dependencies.find(d => d.name === packageName)?.isDev || false
+    }));
+
+    try {
+      return await this.applyDependencyChanges(projectPath, changes, preview);
+    } catch (error) {
+      console.error('Error updating dependencies:', error);
+      vscode.window.showErrorMessage(`Failed to update dependencies: ${error}`);
+      return false;
+    }
+  }
+
   public async removeDependency(
     projectPath: string, 
     packageName: string, 
     isDev: boolean = false
   ): Promise<boolean> {
     try {
-      const pubspecPath = path.join(projectPath, 'pubspec.yaml');
-      
-      if (!fs.existsSync(pubspecPath)) {
-        vscode.window.showErrorMessage(`pubspec.yaml not found in ${projectPath}`);
+      const document = await this.openPubspec(projectPath);
+      if (!document) {
         return false;
       }
 
-      const content = fs.readFileSync(pubspecPath, 'utf8');
-      const pubspec = parseYaml(content);
-
       const dependencySection = isDev ? 'dev_dependencies' : 'dependencies';
       
-      if (pubspec[dependencySection] && pubspec[dependencySection][packageName]) {
-        delete pubspec[dependencySection][packageName];
-
-        const newContent = stringifyYaml(pubspec, {
-          indent: 2
-        });
-
-        fs.writeFileSync(pubspecPath, newContent, 'utf8');
-        
-        await this.runPubGet(projectPath);
-        await this.refreshProject(projectPath);
+      if (hasDependency(document.getText(), dependencySection, packageName)) {
+        const applied = await this.applyDependencyChanges(projectPath, [
+          { packageName, isDev, remove: true }
+        ]);
+        if (!applied) {
+          return false;
+        }
         
         vscode.window.showInformationMessage(`Removed ${packageName} from dependencies`);
         return true;
@@ -126,18 +196,220 @@ export class WorkspaceService {
     }
   }
 
-  public async checkForUpdates(projectPath: string): Promise<Record<string, string>> {
+  /**
+   * Applies dependency changes to pubspec.yaml through a WorkspaceEdit, so
+   * they land in the editor's undo stack and respect unsaved changes in an
+   * open buffer. The document is saved afterwards so pub get sees the result.
+   * Returns false when nothing was applied, e.g. the preview was cancelled.
+   */
+  public async applyDependencyChanges(
+    projectPath: string,
+    changes: DependencyChange[],
+    preview: boolean = false
+  ): Promise<boolean> {
+    const document = await this.openPubspec(projectPath);
+    if (!document || changes.length === 0) {
+      return false;
+    }
+
+    const content = document.getText();
+    let edit = new vscode.WorkspaceEdit();
+    const pending: PubspecTextEdit[] = [];
+
+    for (const change of changes) {
+      const section = change.isDev ? 'dev_dependencies' : 'dependencies';
+      const constraint = change.remove ? undefined : this.formatVersion(change.version || '');
+      const edits = constraint
+        ? setDependencyEdits(content, section, change.packageName, constraint, change.hostedUrl)
+        : removeDependencyEdits(content, section, change.packageName);
+
+      const metadata: vscode.WorkspaceEditEntryMetadata = {
+        label: constraint ? `${change.packageName}: ${constraint}` : `Remove ${change.packageName}`,
+        description: section,
+        needsConfirmation: preview
+      };
+      for (const textEdit of edits) {
+        pending.push(textEdit);
+        edit.replace(document.uri, this.toRange(document, textEdit), textEdit.newText, metadata);
+      }
+    }
+
+    if (pending.length === 0) {
+      return false;
+    }
+
+    if (this.hasOverlappingEdits(pending)) {
+      // Edits computed against the same text collide (e.g. two inserts into an
+      // empty section), so apply them one after another and replace the text
+      const updated = changes.reduce((text, change) => {
+        const section = change.isDev ? 'dev_dependencies' : 'dependencies';
+        const edits = change.remove
+          ? removeDependencyEdits(text, section, change.packageName)
+          : setDependencyEdits(text, section, change.packageName, this.formatVersion(change.version || ''), change.hostedUrl);
+        return applyEdits(text, edits);
+      }, content);
+
+      const wholeDocument = new vscode.Range(document.positionAt(0), document.positionAt(content.length));
+      edit = new vscode.WorkspaceEdit();
+      edit.replace(document.uri, wholeDocument, updated, {
+        label: `Update ${changes.length} dependencies`,
+        needsConfirmation: preview
+      });
+    }
+
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      return false;
+    }
+
+    await this.savePubspec(document);
+    await this.runPubGet(projectPath);
+    await this.refreshProject(projectPath);
+    return true;
+  }
+
+  /**
+   * Rewrites `environment.sdk` and, when given, `environment.flutter` in one
+   * undoable edit, shown in the refactor preview first. Runs pub get after.
+   */
+  public async updateEnvironment(
+    projectPath: string,
+    environment: { sdk: string; flutter?: string }
+  ): Promise<boolean> {
+    const document = await this.openPubspec(projectPath);
+    if (!document) {
+      return false;
+    }
+
+    const content = document.getText();
+    let updated = applyEdits(content, setEnvironmentEdits(content, 'sdk', environment.sdk));
+    if (environment.flutter) {
+      updated = applyEdits(updated, setEnvironmentEdits(updated, 'flutter', environment.flutter));
+    }
+    if (updated === content) {
+      return false;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const wholeDocument = new vscode.Range(document.positionAt(0), document.positionAt(content.length));
+    edit.replace(document.uri, wholeDocument, updated, {
+      label: 'Update SDK constraints',
+      needsConfirmation: true
+    });
+
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      return false;
+    }
+
+    await this.savePubspec(document);
+    await this.runPubGet(projectPath);
+    await this.refreshProject(projectPath);
+    return true;
+  }
+
+  /**
+   * Saves a pubspec the extension edited. The caller runs pub get itself, so
+   * the file watcher skips this save.
+   */
+  private async savePubspec(document: vscode.TextDocument): Promise<void> {
+    this.ownSaves.set(document.uri.fsPath, document.getText());
+    await document.save();
+    // Format on save may have changed the text
+    this.ownSaves.set(document.uri.fsPath, document.getText());
+  }
+
+  private async openPubspec(projectPath: string): Promise<vscode.TextDocument | null> {
+    const pubspecPath = path.join(projectPath, 'pubspec.yaml');
+    if (!fs.existsSync(pubspecPath)) {
+      vscode.window.showErrorMessage(`pubspec.yaml not found in ${projectPath}`);
+      return null;
+    }
+    // Returns the open editor buffer, unsaved changes included, if there is one
+    return vscode.workspace.openTextDocument(pubspecPath);
+  }
+
+  private toRange(document: vscode.TextDocument, edit: PubspecTextEdit): vscode.Range {
+    return new vscode.Range(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length));
+  }
+
+  private hasOverlappingEdits(edits: PubspecTextEdit[]): boolean {
+    const sorted = [...edits].sort((a, b) => a.offset - b.offset);
+    return sorted.some((edit, index) => {
+      if (index === 0) {
+        return false;
+      }
+      // Two inserts at the same offset have no defined order
+      const previous = sorted[index - 1];
+      return previous.offset + previous.length > edit.offset || previous.offset === edit.offset;
+    });
+  }
+
+  public async checkForUpdates(projectPath: string): Promise<UpdateCheckResult> {
     const project = this.projects.find(p => p.path === projectPath);
     if (!project) {
-      return {};
+      return { updates: {}, needsSdkBump: {} };
     }
 
-    const dependencies = project.dependencies.reduce((acc, dep) => {
-      acc[dep.name] = dep.version;
-      return acc;
-    }, {} as Record<string, string>);
+    const dependencies: Record<string, string> = {};
+    const hostedUrls: Record<string, string> = {};
+    for (const dep of project.dependencies.filter(d => isHostedSpec(d.spec))) {
+      dependencies[dep.name] = dep.version;
+      if (dep.spec.url) {
+        hostedUrls[dep.name] = dep.spec.url;
+      }
+    }
 
-    return this.pubApiService.checkForUpdates(dependencies);
+    return this.pubApiService.checkForUpdates(dependencies, hostedUrls, await this.getSdkEnvironment(project));
+  }
+
+  /**
+   * The project's `environment:` constraints together with the versions of
+   * the SDK it runs pub with.
+   */
+  public async getSdkEnvironment(
+    project: Pick<WorkspaceProject, 'path' | 'usesFlutter' | 'sdkConstraint' | 'flutterConstraint'>
+  ): Promise<SdkEnvironment> {
+    const sdk = await this.sdkService.getProjectSdk(project);
+    return {
+      dartVersion: sdk.dartVersion,
+      flutterVersion: sdk.flutterVersion,
+      sdkConstraint: project.sdkConstraint,
+      flutterConstraint: project.flutterConstraint
+    };
+  }
+
+  public getLockfile(projectPath: string): PubspecLock | null {
+    return this.lockfileService.read(projectPath);
+  }
+
+  /**
+   * Collects the version constraints of hosted dependencies in a parsed pubspec.
+   */
+  public getDeclaredConstraints(pubspec: any): Record<string, string> {
+    const constraints: Record<string, string> = {};
+    for (const section of ['dependencies', 'dev_dependencies']) {
+      for (const [name, value] of Object.entries<any>(pubspec?.[section] || {})) {
+        const spec = parseDependencySpec(value);
+        if (spec?.source === 'hosted' && spec.constraint) {
+          constraints[name] = spec.constraint;
+        }
+      }
+    }
+    return constraints;
+  }
+
+  /**
+   * Whether a parsed pubspec belongs to a Flutter app or package rather than
+   * a pure Dart one.
+   */
+  public usesFlutterSdk(pubspec: any): boolean {
+    if (typeof pubspec?.environment?.flutter === 'string') {
+      return true;
+    }
+    return ['dependencies', 'dev_dependencies'].some(section =>
+      Object.values<any>(pubspec?.[section] || {}).some(value => parseDependencySpec(value)?.sdk === 'flutter')
+    );
   }
 
   private async scanForFlutterProjects(): Promise<void> {
@@ -146,6 +418,8 @@ export class WorkspaceService {
     }
 
     this.projects = [];
+    this.versionChecks.forEach(check => check.cancel());
+    this.versionChecks.clear();
 
     for (const folder of vscode.workspace.workspaceFolders) {
       await this.scanDirectoryForProjects(folder.uri.fsPath);
@@ -186,13 +460,17 @@ export class WorkspaceService {
         return null;
       }
 
-      const dependencies = await this.extractDependencies(pubspec);
+      const dependencies = this.extractDependencies(pubspec, projectPath);
 
       return {
         name: pubspec.name,
         path: projectPath,
         pubspecPath,
-        dependencies
+        dependencies,
+        lock: this.lockfileService.read(projectPath) || undefined,
+        sdkConstraint: typeof pubspec.environment?.sdk === 'string' ? pubspec.environment.sdk : undefined,
+        flutterConstraint: typeof pubspec.environment?.flutter === 'string' ? pubspec.environment.flutter : undefined,
+        usesFlutter: this.usesFlutterSdk(pubspec)
       };
     } catch (error) {
       console.error(`Error creating project from ${projectPath}:`, error);
@@ -200,67 +478,46 @@ export class WorkspaceService {
     }
   }
 
-  private async extractDependencies(pubspec: any): Promise<DependencyInfo[]> {
+  /**
+   * Reads the declared dependencies. Hosted ones start with
+   * `isCheckingVersions` set until `checkVersions` fills in their versions.
+   */
+  private extractDependencies(pubspec: any, projectPath: string): DependencyInfo[] {
     const dependencies: DependencyInfo[] = [];
+    const lock = this.lockfileService.read(projectPath);
+
+    const sections: Array<{ key: string; isDev: boolean }> = [
+      { key: 'dependencies', isDev: false },
+      { key: 'dev_dependencies', isDev: true }
+    ];
 
     try {
-      // Regular dependencies
-      if (pubspec.dependencies && typeof pubspec.dependencies === 'object') {
-        for (const [name, version] of Object.entries(pubspec.dependencies)) {
-          if (name && typeof name === 'string' && name !== 'flutter' && version) {
-            try {
-              const latestVersion = await this.pubApiService.getLatestVersion(name);
-              const versionString = String(version);
-              
-              dependencies.push({
-                name,
-                version: versionString,
-                isDev: false,
-                isOutdated: latestVersion ? this.isVersionOutdated(versionString, latestVersion) : false,
-                latestVersion: latestVersion || undefined
-              });
-            } catch (error) {
-              console.warn(`Failed to process dependency ${name}:`, error);
-              // Still add the dependency with basic info if we can't get latest version
-              dependencies.push({
-                name,
-                version: String(version),
-                isDev: false,
-                isOutdated: false,
-                latestVersion: undefined
-              });
-            }
-          }
+      for (const section of sections) {
+        const entries = pubspec[section.key];
+        if (!entries || typeof entries !== 'object') {
+          continue;
         }
-      }
 
-      // Dev dependencies
-      if (pubspec.dev_dependencies && typeof pubspec.dev_dependencies === 'object') {
-        for (const [name, version] of Object.entries(pubspec.dev_dependencies)) {
-          if (name && typeof name === 'string' && name !== 'flutter_test' && version) {
-            try {
-              const latestVersion = await this.pubApiService.getLatestVersion(name);
-              const versionString = String(version);
-              
-              dependencies.push({
-                name,
-                version: versionString,
-                isDev: true,
-                isOutdated: latestVersion ? this.isVersionOutdated(versionString, latestVersion) : false,
-                latestVersion: latestVersion || undefined
-              });
-            } catch (error) {
-              console.warn(`Failed to process dev dependency ${name}:`, error);
-              // Still add the dependency with basic info if we can't get latest version
-              dependencies.push({
-                name,
-                version: String(version),
-                isDev: true,
-                isOutdated: false,
-                latestVersion: undefined
-              });
-            }
+        for (const [name, value] of Object.entries(entries)) {
+          const spec = parseDependencySpec(value);
+          if (!name || typeof name !== 'string' || !spec) {
+            continue;
           }
+
+          const locked = lock?.packages[name];
+          dependencies.push({
+            name,
+            version: spec.constraint || describeDependencySpec(spec),
+            isDev: section.isDev,
+            isOutdated: false,
+            latestVersion: undefined,
+            currentVersion: locked?.version,
+            source: locked?.source,
+            kind: locked?.dependency,
+            spec,
+            // Only hosted packages have published versions to compare against
+            isCheckingVersions: isHostedSpec(spec)
+          });
         }
       }
     } catch (error) {
@@ -270,6 +527,116 @@ export class WorkspaceService {
     return dependencies;
   }
 
+  /**
+   * Locates and detects every project's SDK again, e.g. after the FVM config
+   * or the SDK settings changed.
+   */
+  public refreshSdks(): void {
+    this.sdkService.refresh();
+    this.detectSdks(this.projects);
+  }
+
+  /**
+   * Detects the SDK of each project in the background and reports it through
+   * `onDidDetectSdk`.
+   */
+  private detectSdks(projects: WorkspaceProject[]): void {
+    for (const project of projects) {
+      this.sdkService.getProjectSdk(project).then(sdk => {
+        project.sdk = sdk;
+        this._onDidDetectSdk.fire(project);
+      }, error => console.warn(`Failed to detect the SDK of ${project.path}:`, error));
+    }
+  }
+
+  /**
+   * Fetches published versions in the background, with a progress indicator
+   * in the status bar. Each dependency is reported through
+   * `onDidUpdateDependency` as soon as its versions arrive.
+   */
+  private checkVersions(projects: WorkspaceProject[]): void {
+    const total = projects.reduce(
+      (count, project) => count + project.dependencies.filter(d => d.isCheckingVersions).length,
+      0
+    );
+    if (total === 0) {
+      return;
+    }
+
+    vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: 'Checking package versions'
+    }, async (progress) => {
+      let checked = 0;
+      await Promise.all(projects.map(project => this.checkProjectVersions(project, () => {
+        checked++;
+        progress.report({ message: `${checked}/${total}` });
+      })));
+    });
+  }
+
+  private async checkProjectVersions(project: WorkspaceProject, onChecked: () => void): Promise<void> {
+    // A newer check of the same project replaces the running one
+    this.versionChecks.get(project.path)?.cancel();
+    const check = new vscode.CancellationTokenSource();
+    this.versionChecks.set(project.path, check);
+
+    const dependencyConstraints: Record<string, string> = {};
+    for (const dep of project.dependencies) {
+      if (dep.spec.source === 'hosted' && dep.spec.constraint) {
+        dependencyConstraints[dep.name] = dep.spec.constraint;
+      }
+    }
+
+    const lookups = project.dependencies.filter(d => d.isCheckingVersions).map(async (dependency) => {
+      try {
+        // Detected once per SDK, so this only waits on the first lookup
+        const environment = await this.getSdkEnvironment(project);
+        const [columns, score, details] = await Promise.all([
+          this.pubApiService.getVersionColumns(dependency.name, dependency.version, {
+            ...environment,
+            lockedVersion: dependency.currentVersion,
+            dependencyConstraints,
+            hostedUrl: dependency.spec.url,
+            token: check.token
+          }),
+          this.pubApiService.getPackageScore(dependency.name, dependency.spec.url, check.token),
+          this.pubApiService.getPackageDetails(dependency.name, dependency.spec.url, check.token)
+        ]);
+
+        dependency.metrics = score || undefined;
+        dependency.isOutdated = columns.latest ? isVersionOutdated(dependency.version, columns.latest) : false;
+        dependency.latestVersion = columns.latest;
+        dependency.upgradableVersion = columns.upgradable;
+        dependency.resolvableVersion = columns.resolvable;
+        dependency.latestRequires = columns.latestRequires;
+        dependency.isRetracted = columns.isCurrentRetracted;
+        dependency.isDiscontinued = details?.isDiscontinued === true;
+        dependency.replacedBy = details?.replacedBy;
+      } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+          return;
+        }
+        // Still keep the dependency with basic info if we can't get latest version
+        console.warn(`Failed to check versions of ${dependency.name}:`, error);
+      }
+
+      dependency.isCheckingVersions = false;
+      onChecked();
+      if (!check.token.isCancellationRequested) {
+        this._onDidUpdateDependency.fire({ projectPath: project.path, dependency });
+      }
+    });
+
+    await Promise.all(lookups);
+
+    if (this.versionChecks.get(project.path) === check) {
+      this.versionChecks.delete(project.path);
+      this._onDidFinishVersionCheck.fire(project.path);
+    }
+    check.dispose();
+  }
+
   private setupFileWatchers(): void {
     if (!vscode.workspace.workspaceFolders) {
       return;
@@ -280,6 +647,10 @@ export class WorkspaceService {
       const watcher = vscode.workspace.createFileSystemWatcher(pattern);
 
       watcher.onDidChange(async (uri) => {
+        if (this.isOwnSave(uri.fsPath)) {
+          return;
+        }
+
         const projectPath = path.dirname(uri.fsPath);
         await this.refreshProject(projectPath);
         
@@ -294,15 +665,39 @@ export class WorkspaceService {
         const project = await this.createProjectFromPath(projectPath);
         if (project) {
           this.projects.push(project);
+          this._onDidChangeProjects.fire();
+          this.detectSdks([project]);
+          this.checkVersions([project]);
         }
       });
 
       watcher.onDidDelete(async (uri) => {
         const projectPath = path.dirname(uri.fsPath);
+        this.versionChecks.get(projectPath)?.cancel();
         this.projects = this.projects.filter(p => p.path !== projectPath);
+        this._onDidChangeProjects.fire();
       });
 
-      this.fileWatchers.push(watcher);
+      const lockPattern = new vscode.RelativePattern(folder, '**/pubspec.lock');
+      const lockWatcher = vscode.workspace.createFileSystemWatcher(lockPattern);
+      const onLockChanged = async (uri: vscode.Uri) => {
+        const projectPath = path.dirname(uri.fsPath);
+        this.lockfileService.invalidate(projectPath);
+        await this.refreshProject(projectPath);
+      };
+
+      lockWatcher.onDidChange(onLockChanged);
+      lockWatcher.onDidCreate(onLockChanged);
+      lockWatcher.onDidDelete(onLockChanged);
+
+      // `fvm use` rewrites the config, which may point projects at another SDK
+      const fvmPattern = new vscode.RelativePattern(folder, '**/{.fvmrc,.fvm/fvm_config.json}');
+      const fvmWatcher = vscode.workspace.createFileSystemWatcher(fvmPattern);
+      fvmWatcher.onDidChange(() => this.refreshSdks());
+      fvmWatcher.onDidCreate(() => this.refreshSdks());
+      fvmWatcher.onDidDelete(() => this.refreshSdks());
+
+      this.fileWatchers.push(watcher, lockWatcher, fvmWatcher);
     }
   }
 
@@ -312,95 +707,134 @@ export class WorkspaceService {
       const project = await this.createProjectFromPath(projectPath);
       if (project) {
         this.projects[index] = project;
+        this._onDidChangeProjects.fire();
+        this.detectSdks([project]);
+        this.checkVersions([project]);
       }
     }
   }
 
-  private async runPubGet(projectPath: string): Promise<void> {
+  /**
+   * True for the change event of a pubspec the extension wrote itself.
+   * Matching the content means a later save of other content, e.g. after an
+   * undo, still runs pub get.
+   */
+  private isOwnSave(pubspecPath: string): boolean {
+    const saved = this.ownSaves.get(pubspecPath);
+    if (saved === undefined) {
+      return false;
+    }
+
+    this.ownSaves.delete(pubspecPath);
+    try {
+      return fs.readFileSync(pubspecPath, 'utf8') === saved;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Runs pub get once the previous run for the same project has finished;
+   * concurrent runs would race on pubspec.lock and .dart_tool.
+   */
+  private runPubGet(projectPath: string): Promise<void> {
+    const previous = this.pubGets.get(projectPath) ?? Promise.resolve();
+    const run = previous.then(() => this.runPubGetNow(projectPath));
+    this.pubGets.set(projectPath, run);
+    run.then(() => {
+      if (this.pubGets.get(projectPath) === run) {
+        this.pubGets.delete(projectPath);
+      }
+    });
+    return run;
+  }
+
+  private async runPubGetNow(projectPath: string): Promise<void> {
     try {
-      await vscode.window.withProgress({
+      const result = await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
-        title: 'Running flutter pub get...',
-        cancellable: false
-      }, async (progress) => {
+        title: 'Running pub get...',
+        cancellable: true
+      }, async (progress, token) => {
         progress.report({ increment: 50, message: 'Resolving dependencies' });
         
         // Ejecutar pub get y capturar el resultado
-        const result = await this.executePubGet(projectPath);
-        
-        if (result.success) {
-          vscode.window.showInformationMessage('Dependencies updated successfully!');
-        } else {
-          // Manejar errores con el dependency resolver
-          await this.handlePubGetError(projectPath, result.error);
-        }
+        return this.executePubGet(projectPath, token);
       });
+
+      if (result.success) {
+        vscode.window.showInformationMessage('Dependencies updated successfully!');
+      } else if (!result.cancelled) {
+        // Manejar errores con el dependency resolver
+        this.pubOutputChannel.show(true);
+        this._onDidFailPubGet.fire(result);
+      }
     } catch (error) {
       console.error('Error running pub get:', error);
       vscode.window.showErrorMessage(`Failed to run pub get: ${error}`);
     }
   }
 
-  private async executePubGet(projectPath: string): Promise<{success: boolean, error: string}> {
+  /**
+   * Runs pub get with the project's SDK: `flutter pub get` for Flutter
+   * projects, `dart pub get` for pure Dart packages.
+   */
+  private async executePubGet(projectPath: string, token?: vscode.CancellationToken): Promise<PubGetResult> {
+    const project = this.projects.find(p => p.path === projectPath);
+    const sdk = await this.sdkService.getProjectSdk({ path: projectPath, usesFlutter: project?.usesFlutter ?? true });
+
     return new Promise((resolve) => {
-      const terminal = vscode.window.createTerminal({
-        name: 'Smart Pub Manager - Pub Get',
-        cwd: projectPath
+      const command = this.sdkService.getCommand(sdk.executable);
+      const args = ['pub', 'get'];
+      let stdout = '';
+      let stderr = '';
+      let cancelled = false;
+
+      this.pubOutputChannel.appendLine(`[${new Date().toLocaleTimeString()}] ${command} ${args.join(' ')} (${projectPath})`);
+
+      const child = cp.spawn(command, args, {
+        cwd: projectPath,
+        shell: process.platform === 'win32'
+      });
+
+      const cancellation = token?.onCancellationRequested(() => {
+        cancelled = true;
+        child.kill();
       });
-      
-      // Por ahora mostramos el terminal, en el futuro podríamos capturar la salida
-      terminal.sendText('flutter pub get');
-      terminal.show();
-      
-      // Simulamos éxito por ahora - en una implementación real capturaríamos la salida
-      setTimeout(() => {
-        resolve({ success: true, error: '' });
-      }, 2000);
-    });
-  }
 
-  private async handlePubGetError(projectPath: string, errorOutput: string): Promise<void> {
-    // Esta función será conectada con el DependencyResolver
-    console.log('Pub get error:', errorOutput);
-    vscode.window.showErrorMessage(`Pub get failed: ${errorOutput}`);
+      child.stdout.on('data', (data: Buffer) => {
+        stdout += data.toString();
+        this.pubOutputChannel.append(data.toString());
+      });
+
+      child.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+        this.pubOutputChannel.append(data.toString());
+      });
+
+      child.on('error', (error) => {
+        cancellation?.dispose();
+        this.pubOutputChannel.appendLine(`Failed to start ${command}: ${error.message}`);
+        resolve({ projectPath, success: false, cancelled, exitCode: null, stdout, stderr: error.message });
+      });
+
+      child.on('close', (exitCode) => {
+        cancellation?.dispose();
+        this.pubOutputChannel.appendLine(`Exited with code ${exitCode}`);
+        resolve({ projectPath, success: exitCode === 0, cancelled, exitCode, stdout, stderr });
+      });
+    });
   }
 
   private formatVersion(version: string): string {
     if (!version) {
       return '^1.0.0'; // fallback version
     }
-    // Remove any existing ^ or ~ prefixes and add ^
-    const cleanVersion = version.replace(/^[\^~]/, '');
-    return `^${cleanVersion}`;
-  }
-
-  private isVersionOutdated(currentVersion: string, latestVersion: string): boolean {
-    if (!currentVersion || !latestVersion) {
-      return false;
-    }
-    
-    const cleanCurrent = currentVersion.replace(/[^0-9.]/g, '');
-    const cleanLatest = latestVersion.replace(/[^0-9.]/g, '');
-    
-    if (!cleanCurrent || !cleanLatest) {
-      return false;
-    }
-    
-    const currentParts = cleanCurrent.split('.').map(Number);
-    const latestParts = cleanLatest.split('.').map(Number);
-    
-    for (let i = 0; i < Math.max(currentParts.length, latestParts.length); i++) {
-      const current = currentParts[i] || 0;
-      const latest = latestParts[i] || 0;
-      
-      if (latest > current) {
-        return true;
-      }
-      if (current > latest) {
-        return false;
-      }
+    // A bare version becomes a caret constraint, real constraints are kept as-is
+    const cleanVersion = version.trim().replace(/^[\^~]/, '');
+    if (parseVersion(cleanVersion)) {
+      return `^${cleanVersion}`;
     }
-    
-    return false;
+    return VersionConstraint.parse(version) ? version.trim() : `^${cleanVersion}`;
   }
 } 
\ No newline at end of file
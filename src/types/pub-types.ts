@@ -10,6 +10,8 @@ export interface PubPackage {
   tags: string[];
   isFlutterPackage: boolean;
   isDartPackage: boolean;
+  /** Package server it was found on, unset for the default one */
+  hostedUrl?: string;
 }
 
 export interface PubSearchResponse {
@@ -22,48 +24,220 @@ export interface PubPackageSearchResult {
   description?: string;
   tags?: string[];
   version?: string;
-  score?: {
-    grantedPoints?: number;
-    maxPoints?: number;
-    likeCount?: number;
-    popularityScore?: number;
+  score?: PubPackageScore;
+}
+
+/**
+ * Response of pub.dev's `/api/packages/<name>/score` endpoint.
+ */
+export interface PubPackageScore {
+  grantedPoints?: number;
+  maxPoints?: number;
+  likeCount?: number;
+  /** 0 to 1, no longer reported for every package */
+  popularityScore?: number;
+  downloadCount30Days?: number;
+  tags?: string[];
+  lastUpdated?: string;
+}
+
+export interface PubPackagePubspec {
+  name: string;
+  version?: string;
+  description?: string;
+  homepage?: string;
+  repository?: string;
+  environment?: {
+    sdk?: string;
+    flutter?: string;
   };
+  dependencies?: Record<string, string>;
+  dev_dependencies?: Record<string, string>;
+}
+
+export interface PubPackageVersion {
+  version: string;
+  pubspec: PubPackagePubspec;
+  published?: string;
+  /** Withdrawn by the publisher; pub won't pick it unless already locked */
+  retracted?: boolean;
+}
+
+/**
+ * One entry of a package's version history, as shown in the version picker.
+ */
+export interface PackageVersionInfo {
+  version: string;
+  published?: Date;
+  retracted: boolean;
+  isPreRelease: boolean;
+  /** `environment.sdk` the version requires */
+  sdkConstraint?: string;
+  /** `environment.flutter` the version requires */
+  flutterConstraint?: string;
+  /**
+   * Whether the required SDK overlaps the project's and the required Flutter
+   * version allows the detected one; unset when neither can be told
+   */
+  isSdkCompatible?: boolean;
+  /** Requires a Flutter version other than the detected one */
+  needsOtherFlutter?: boolean;
 }
 
 export interface PubPackageDetails {
   name: string;
-  latest: {
-    version: string;
-    pubspec: {
-      name: string;
-      description?: string;
-      homepage?: string;
-      repository?: string;
-      environment?: {
-        sdk?: string;
-        flutter?: string;
-      };
-      dependencies?: Record<string, string>;
-      dev_dependencies?: Record<string, string>;
-    };
-  };
+  latest: PubPackageVersion;
+  versions?: PubPackageVersion[];
+  /** No longer maintained by its publisher */
+  isDiscontinued?: boolean;
+  /** Package the publisher suggests instead, discontinued packages only */
+  replacedBy?: string;
   metrics?: {
-    score?: {
-      grantedPoints?: number;
-      maxPoints?: number;
-      likeCount?: number;
-      popularityScore?: number;
-    };
+    score?: PubPackageScore;
   };
 }
 
+/**
+ * The four version columns reported by `dart pub outdated`.
+ */
+export interface VersionColumns {
+  /** Version locked in pubspec.lock */
+  current?: string;
+  /** Newest version the declared constraint allows */
+  upgradable?: string;
+  /** Newest version compatible with the SDK and the other declared dependencies */
+  resolvable?: string;
+  /** Newest stable version published */
+  latest?: string;
+  /** What latest needs beyond the project's SDK, e.g. `Dart SDK >=3.4.0 <4.0.0` */
+  latestRequires?: string;
+  /** The current version was retracted by its publisher */
+  isCurrentRetracted?: boolean;
+}
+
+/**
+ * Result of checking a project for updates.
+ */
+export interface UpdateCheckResult {
+  /** Newest version each dependency can move to with the project's SDK */
+  updates: Record<string, string>;
+  /** Dependencies whose latest version needs an SDK bump first */
+  needsSdkBump: Record<string, { latest: string; requires: string }>;
+}
+
+/**
+ * SDK versions found on this machine.
+ */
+export interface InstalledSdk {
+  dartVersion?: string;
+  /** Unset when only the Dart SDK is installed */
+  flutterVersion?: string;
+}
+
+/**
+ * Where a project's SDK comes from: pinned with FVM, the `dart.flutterSdkPath`
+ * / `dart.sdkPath` settings, or the `flutter` and `dart` on PATH.
+ */
+export type SdkSource = 'fvm' | 'setting' | 'path';
+
+/** The SDK pub runs with for one project */
+export interface ProjectSdk extends InstalledSdk {
+  source: SdkSource;
+  /** `flutter` for Flutter projects, `dart` otherwise; a bare name when taken from PATH */
+  executable: string;
+  /** Version pinned in `.fvmrc` or `.fvm/fvm_config.json`, even when it isn't installed */
+  fvmVersion?: string;
+}
+
+/**
+ * What a package version has to be compatible with: the project's
+ * `environment:` constraints and the locally installed SDK.
+ */
+export interface SdkEnvironment extends InstalledSdk {
+  /** `environment.sdk` from pubspec.yaml */
+  sdkConstraint?: string;
+  /** `environment.flutter` from pubspec.yaml */
+  flutterConstraint?: string;
+}
+
+export type DependencySource = 'hosted' | 'git' | 'path' | 'sdk';
+
+/**
+ * A dependency as declared in pubspec.yaml.
+ */
+export interface DependencySpec {
+  source: DependencySource;
+  /** Version constraint; always set for hosted, optional for the others */
+  constraint?: string;
+  /** git: repository url; hosted: custom package server, unset for the default one */
+  url?: string;
+  /** git: branch, tag or commit */
+  ref?: string;
+  /** git: folder inside the repository; path: the local folder */
+  path?: string;
+  /** sdk: name of the SDK, e.g. flutter */
+  sdk?: string;
+}
+
+export type DependencyKind = 'direct main' | 'direct dev' | 'direct overridden' | 'transitive';
+
+export interface LockedPackage {
+  name: string;
+  version: string;
+  source: DependencySource;
+  dependency: DependencyKind;
+  description?: any;
+}
+
+export interface PubspecLock {
+  packages: Record<string, LockedPackage>;
+  sdks: Record<string, string>;
+}
+
+export interface DependencyNode {
+  name: string;
+  version?: string;
+  /** Constraint the parent places on this package */
+  constraint?: string;
+  source?: DependencySource;
+  children: DependencyNode[];
+  /** Already expanded earlier in the same subtree */
+  repeated: boolean;
+}
+
+export interface DependencyPathStep {
+  name: string;
+  version?: string;
+  /** Constraint the previous step places on this package */
+  constraint?: string;
+}
+
 export interface DependencyInfo {
   name: string;
   version: string;
   isDev: boolean;
   isOutdated: boolean;
   latestVersion?: string;
+  currentVersion?: string;
+  upgradableVersion?: string;
+  resolvableVersion?: string;
+  source?: DependencySource;
+  kind?: DependencyKind;
+  /** How the dependency is declared in pubspec.yaml */
+  spec: DependencySpec;
   description?: string;
+  /** Pub points, likes and popularity, pub.dev packages only */
+  metrics?: PubPackageScore;
+  /** Published versions are still being fetched in the background */
+  isCheckingVersions?: boolean;
+  /** What the latest version needs beyond the project's SDK */
+  latestRequires?: string;
+  /** The locked version was retracted by its publisher */
+  isRetracted?: boolean;
+  /** The package is no longer maintained, see `replacedBy` */
+  isDiscontinued?: boolean;
+  /** Package the publisher suggests instead */
+  replacedBy?: string;
 }
 
 export interface WorkspaceProject {
@@ -71,10 +245,22 @@ export interface WorkspaceProject {
   path: string;
   pubspecPath: string;
   dependencies: DependencyInfo[];
+  lock?: PubspecLock;
+  /** `environment.sdk` from pubspec.yaml */
+  sdkConstraint?: string;
+  /** `environment.flutter` from pubspec.yaml */
+  flutterConstraint?: string;
+  /** Depends on the Flutter SDK, so pub runs through `flutter` instead of `dart` */
+  usesFlutter: boolean;
+  /** Set once the SDK has been detected */
+  sdk?: ProjectSdk;
 }
 
 export interface CacheEntry<T> {
   data: T;
   timestamp: number;
   expiresAt: number;
+  /** HTTP validators for conditional requests */
+  etag?: string;
+  lastModified?: string;
 } 
\ No newline at end of file
@@ -0,0 +1,362 @@
+/**
+ * Dart flavoured semantic versioning, following the rules of `package:pub_semver`:
+ * caret constraints use the 0.x rule, pre-releases sort before their release,
+ * build metadata sorts after it, and an exclusive upper bound like `<2.0.0`
+ * does not let in `2.0.0-dev.1`.
+ */
+
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  preRelease: Array<string | number>;
+  build: Array<string | number>;
+  text: string;
+}
+
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+const COMPARATOR_PATTERN = /^(>=|<=|>|<)?\s*(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)/;
+
+export function parseVersion(text: string | undefined | null): Version | null {
+  if (!text || typeof text !== 'string') {
+    return null;
+  }
+
+  const match = text.trim().match(VERSION_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    preRelease: splitIdentifiers(match[4]),
+    build: splitIdentifiers(match[5]),
+    text: match[0]
+  };
+}
+
+export function isPreRelease(version: Version): boolean {
+  return version.preRelease.length > 0;
+}
+
+export function compareVersions(a: Version, b: Version): number {
+  if (a.major !== b.major) return a.major - b.major;
+  if (a.minor !== b.minor) return a.minor - b.minor;
+  if (a.patch !== b.patch) return a.patch - b.patch;
+
+  // A pre-release comes before its release: 2.0.0-dev.3 < 2.0.0
+  if (isPreRelease(a) !== isPreRelease(b)) {
+    return isPreRelease(a) ? -1 : 1;
+  }
+  const preReleaseOrder = compareIdentifiers(a.preRelease, b.preRelease);
+  if (preReleaseOrder !== 0) {
+    return preReleaseOrder;
+  }
+
+  // Build metadata comes after the plain version: 1.2.3 < 1.2.3+4
+  if ((a.build.length > 0) !== (b.build.length > 0)) {
+    return a.build.length > 0 ? 1 : -1;
+  }
+  return compareIdentifiers(a.build, b.build);
+}
+
+/**
+ * Compares two version strings, sorting unparseable strings first.
+ */
+export function compareVersionStrings(a: string, b: string): number {
+  const versionA = parseVersion(a);
+  const versionB = parseVersion(b);
+  if (!versionA || !versionB) {
+    return versionA ? 1 : versionB ? -1 : 0;
+  }
+  return compareVersions(versionA, versionB);
+}
+
+/**
+ * The candidate closest to `version`: the lowest one above it, or else the
+ * highest one below it. Pre-releases are skipped unless `version` is one.
+ */
+export function findNearestVersion(version: string, candidates: string[]): string | undefined {
+  const target = parseVersion(version);
+  if (!target) {
+    return undefined;
+  }
+
+  const parsed = candidates
+    .map(text => ({ text, version: parseVersion(text) }))
+    .filter((c): c is { text: string; version: Version } =>
+      c.version !== null && (isPreRelease(target) || !isPreRelease(c.version)))
+    .sort((a, b) => compareVersions(a.version, b.version));
+
+  const above = parsed.find(c => compareVersions(c.version, target) > 0);
+  if (above) {
+    return above.text;
+  }
+  const below = parsed.filter(c => compareVersions(c.version, target) < 0);
+  return below.length > 0 ? below[below.length - 1].text : undefined;
+}
+
+export class VersionConstraint {
+  private constructor(
+    public readonly min: Version | undefined,
+    public readonly max: Version | undefined,
+    public readonly includeMin: boolean,
+    public readonly includeMax: boolean,
+    private readonly empty: boolean = false
+  ) {}
+
+  public static readonly any = new VersionConstraint(undefined, undefined, false, false);
+  public static readonly none = new VersionConstraint(undefined, undefined, false, false, true);
+
+  /**
+   * Parses a pub constraint: `any`, `^1.2.3`, `1.2.3`, or a space separated
+   * list of comparators such as `>=1.0.0 <2.0.0`. Returns null if invalid.
+   */
+  public static parse(text: string | undefined | null): VersionConstraint | null {
+    if (typeof text !== 'string') {
+      return null;
+    }
+
+    let rest = text.trim().replace(/^['"]|['"]$/g, '').trim();
+    if (rest === '' || rest === 'any') {
+      return VersionConstraint.any;
+    }
+
+    if (rest.startsWith('^')) {
+      const version = parseVersion(rest.substring(1));
+      return version ? VersionConstraint.compatibleWith(version) : null;
+    }
+
+    let constraint = VersionConstraint.any;
+    while (rest.length > 0) {
+      const match = rest.match(COMPARATOR_PATTERN);
+      const version = match ? parseVersion(match[2]) : null;
+      if (!match || !version) {
+        return null;
+      }
+
+      constraint = constraint.intersect(VersionConstraint.fromComparator(match[1], version));
+      rest = rest.substring(match[0].length).trim();
+    }
+
+    return constraint;
+  }
+
+  public static exactly(version: Version): VersionConstraint {
+    return new VersionConstraint(version, version, true, true);
+  }
+
+  public static compatibleWith(version: Version): VersionConstraint {
+    return new VersionConstraint(version, nextBreaking(version), true, false);
+  }
+
+  private static fromComparator(operator: string | undefined, version: Version): VersionConstraint {
+    switch (operator) {
+      case '>=': return new VersionConstraint(version, undefined, true, false);
+      case '>': return new VersionConstraint(version, undefined, false, false);
+      case '<=': return new VersionConstraint(undefined, version, false, true);
+      case '<': return new VersionConstraint(undefined, version, false, false);
+      default: return VersionConstraint.exactly(version);
+    }
+  }
+
+  public isAny(): boolean {
+    return !this.empty && !this.min && !this.max;
+  }
+
+  public isEmpty(): boolean {
+    return this.empty;
+  }
+
+  public allows(version: Version | string): boolean {
+    const candidate = typeof version === 'string' ? parseVersion(version) : version;
+    if (!candidate || this.empty) {
+      return false;
+    }
+
+    if (this.min) {
+      const order = compareVersions(candidate, this.min);
+      if (order < 0 || (order === 0 && !this.includeMin)) {
+        return false;
+      }
+    }
+
+    if (this.max) {
+      const order = compareVersions(candidate, this.max);
+      if (order > 0 || (order === 0 && !this.includeMax)) {
+        return false;
+      }
+      if (!this.includeMax && this.excludesPreReleasesOfMax() && isPreRelease(candidate) && sameRelease(candidate, this.max)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * True when the version is newer than anything this constraint allows.
+   */
+  public isBelow(version: Version | string): boolean {
+    const candidate = typeof version === 'string' ? parseVersion(version) : version;
+    if (!candidate || this.empty || !this.max || this.allows(candidate)) {
+      return false;
+    }
+
+    const order = compareVersions(candidate, this.max);
+    return order > 0 || (order === 0 && !this.includeMax) || sameRelease(candidate, this.max);
+  }
+
+  public intersect(other: VersionConstraint): VersionConstraint {
+    if (this.empty || other.empty) {
+      return VersionConstraint.none;
+    }
+
+    let min = this.min;
+    let includeMin = this.includeMin;
+    if (other.min && (!min || compareVersions(other.min, min) > 0)) {
+      min = other.min;
+      includeMin = other.includeMin;
+    } else if (other.min && min && compareVersions(other.min, min) === 0) {
+      includeMin = includeMin && other.includeMin;
+    }
+
+    let max = this.max;
+    let includeMax = this.includeMax;
+    if (other.max && (!max || compareVersions(other.max, max) < 0)) {
+      max = other.max;
+      includeMax = other.includeMax;
+    } else if (other.max && max && compareVersions(other.max, max) === 0) {
+      includeMax = includeMax && other.includeMax;
+    }
+
+    if (min && max) {
+      const order = compareVersions(min, max);
+      if (order > 0 || (order === 0 && !(includeMin && includeMax))) {
+        return VersionConstraint.none;
+      }
+    }
+
+    return new VersionConstraint(min, max, includeMin, includeMax);
+  }
+
+  public allowsAny(other: VersionConstraint): boolean {
+    return !this.intersect(other).isEmpty();
+  }
+
+  /**
+   * Returns the newest version in the list that this constraint allows,
+   * preferring stable releases over pre-releases like pub does.
+   */
+  public maxAllowed(versions: string[]): string | undefined {
+    const allowed = versions
+      .filter(version => this.allows(version))
+      .sort(compareVersionStrings);
+    const stable = allowed.filter(version => !isPreRelease(parseVersion(version)!));
+    return (stable.length > 0 ? stable : allowed).pop();
+  }
+
+  public toString(): string {
+    if (this.empty) {
+      return '<empty>';
+    }
+    if (this.isAny()) {
+      return 'any';
+    }
+    if (this.min && this.max && this.includeMin && this.includeMax && compareVersions(this.min, this.max) === 0) {
+      return this.min.text;
+    }
+    if (this.min && this.max && this.includeMin && !this.includeMax &&
+        compareVersions(nextBreaking(this.min), this.max) === 0) {
+      return `^${this.min.text}`;
+    }
+
+    const parts: string[] = [];
+    if (this.min) {
+      parts.push(`${this.includeMin ? '>=' : '>'}${this.min.text}`);
+    }
+    if (this.max) {
+      parts.push(`${this.includeMax ? '<=' : '<'}${this.max.text}`);
+    }
+    return parts.join(' ');
+  }
+
+  private excludesPreReleasesOfMax(): boolean {
+    if (!this.max || isPreRelease(this.max)) {
+      return false;
+    }
+    // `>=2.0.0-dev.1 <2.0.0` explicitly opts in to the pre-releases
+    return !(this.min && isPreRelease(this.min) && sameRelease(this.min, this.max));
+  }
+}
+
+/**
+ * Parses a package's `environment.sdk` the way pub reads it: null safe
+ * constraints such as `>=2.12.0 <3.0.0` also allow Dart 3.
+ */
+export function parseSdkConstraint(text: string | undefined | null): VersionConstraint | null {
+  const constraint = VersionConstraint.parse(text);
+  const nullSafety = parseVersion('2.12.0')!;
+  if (
+    constraint?.min && constraint.max && !constraint.includeMax &&
+    constraint.max.text === '3.0.0' && compareVersions(constraint.min, nullSafety) >= 0
+  ) {
+    return VersionConstraint.parse(`${constraint.includeMin ? '>=' : '>'}${constraint.min.text} <4.0.0`);
+  }
+  return constraint;
+}
+
+/**
+ * True when a dependency declared with `constraint` is behind `latestVersion`,
+ * i.e. the latest release is newer than anything the constraint allows.
+ */
+export function isVersionOutdated(constraint: string, latestVersion: string): boolean {
+  const parsedConstraint = VersionConstraint.parse(constraint);
+  const latest = parseVersion(latestVersion);
+  if (!parsedConstraint || !latest) {
+    return false;
+  }
+  return parsedConstraint.isBelow(latest);
+}
+
+function nextBreaking(version: Version): Version {
+  const [major, minor] = version.major === 0
+    ? [0, version.minor + 1]
+    : [version.major + 1, 0];
+  const text = `${major}.${minor}.0`;
+  return { major, minor, patch: 0, preRelease: [], build: [], text };
+}
+
+function sameRelease(a: Version, b: Version): boolean {
+  return a.major === b.major && a.minor === b.minor && a.patch === b.patch;
+}
+
+function splitIdentifiers(part: string | undefined): Array<string | number> {
+  if (!part) {
+    return [];
+  }
+  return part.split('.').map(id => /^\d+$/.test(id) ? Number(id) : id);
+}
+
+function compareIdentifiers(a: Array<string | number>, b: Array<string | number>): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (i >= a.length) return -1;
+    if (i >= b.length) return 1;
+
+    const left = a[i];
+    const right = b[i];
+    if (left === right) {
+      continue;
+    }
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left - right;
+    }
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof left === 'number') return -1;
+    if (typeof right === 'number') return 1;
+    return left < right ? -1 : 1;
+  }
+  return 0;
+}
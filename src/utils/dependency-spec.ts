@@ -0,0 +1,86 @@
+import { DependencySpec } from '../types/pub-types';
+
+/**
+ * Reads a dependency entry from pubspec.yaml in any of the forms pub accepts:
+ *
+ *   http: ^1.0.0                          hosted on the default server
+ *   http:                                 same, with any version
+ *   http: { version: ^1.0.0, hosted: ... } hosted on a custom server
+ *   http: { git: ..., version: ... }      git, with a url or url/ref/path map
+ *   http: { path: ../http }               local folder
+ *   flutter: { sdk: flutter }             bundled with an SDK
+ *
+ * Returns null for values pub would reject.
+ */
+export function parseDependencySpec(value: unknown): DependencySpec | null {
+  if (value === null || value === undefined || value === '') {
+    return { source: 'hosted', constraint: 'any' };
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    return { source: 'hosted', constraint: String(value) };
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const entry = value as Record<string, any>;
+  const constraint = typeof entry.version === 'string' || typeof entry.version === 'number'
+    ? String(entry.version)
+    : undefined;
+
+  if (entry.sdk !== undefined) {
+    return { source: 'sdk', sdk: String(entry.sdk), constraint };
+  }
+
+  if (entry.path !== undefined) {
+    return { source: 'path', path: String(entry.path), constraint };
+  }
+
+  if (entry.git !== undefined) {
+    const git = typeof entry.git === 'string' ? { url: entry.git } : entry.git || {};
+    return {
+      source: 'git',
+      url: git.url !== undefined ? String(git.url) : undefined,
+      ref: git.ref !== undefined ? String(git.ref) : undefined,
+      path: git.path !== undefined ? String(git.path) : undefined,
+      constraint
+    };
+  }
+
+  if (entry.hosted !== undefined || constraint !== undefined) {
+    // `hosted: <url>` (Dart 2.15+) or the older `hosted: { name, url }`
+    const hosted = typeof entry.hosted === 'string' ? entry.hosted : entry.hosted?.url;
+    return {
+      source: 'hosted',
+      url: hosted !== undefined ? String(hosted).replace(/\/+$/, '') : undefined,
+      constraint: constraint || 'any'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Short text for the declared source, e.g. `^1.2.0`, `git main` or `path ../core`.
+ */
+export function describeDependencySpec(spec: DependencySpec): string {
+  switch (spec.source) {
+    case 'git':
+      return `git${spec.ref ? ` ${spec.ref}` : ''}`;
+    case 'path':
+      return `path ${spec.path}`;
+    case 'sdk':
+      return `sdk ${spec.sdk}`;
+    default:
+      return spec.constraint || 'any';
+  }
+}
+
+/**
+ * True when versions of the dependency can be looked up on a package server.
+ */
+export function isHostedSpec(spec: DependencySpec | undefined): boolean {
+  return !spec || spec.source === 'hosted';
+}
@@ -0,0 +1,45 @@
+import { PubPackageScore } from '../types/pub-types';
+
+/**
+ * Pub points as a share of the maximum, from 0 to 1, or undefined when the
+ * package has no score.
+ */
+export function getPointsRatio(score?: PubPackageScore): number | undefined {
+  if (!score?.maxPoints || score.grantedPoints === undefined) {
+    return undefined;
+  }
+  return Math.min(score.grantedPoints / score.maxPoints, 1);
+}
+
+/**
+ * Short summary like `150/160 points • 1.2k likes • 1.5M downloads`.
+ */
+export function describePackageScore(score: PubPackageScore): string {
+  const parts: string[] = [];
+  if (score.grantedPoints !== undefined) {
+    parts.push(`${score.grantedPoints}/${score.maxPoints ?? '?'} points`);
+  }
+  if (score.likeCount !== undefined) {
+    parts.push(`${formatCount(score.likeCount)} likes`);
+  }
+  if (score.popularityScore !== undefined) {
+    parts.push(`${Math.round(score.popularityScore * 100)}% popularity`);
+  }
+  if (score.downloadCount30Days !== undefined) {
+    parts.push(`${formatCount(score.downloadCount30Days)} downloads`);
+  }
+  return parts.join(' • ');
+}
+
+/**
+ * Compact counts: 950, 1.2k, 3.4M.
+ */
+export function formatCount(count: number): string {
+  if (count >= 1000000) {
+    return `${(count / 1000000).toFixed(1).replace(/\.0$/, '')}M`;
+  }
+  if (count >= 1000) {
+    return `${(count / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+  }
+  return String(count);
+}
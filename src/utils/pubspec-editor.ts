@@ -0,0 +1,257 @@
+import { isMap, isScalar, parseDocument, Pair, Scalar, stringify, YAMLMap } from 'yaml';
+
+/**
+ * A replacement of `length` characters at `offset` in the original text.
+ */
+export interface PubspecTextEdit {
+  offset: number;
+  length: number;
+  newText: string;
+}
+
+export type DependencySection = 'dependencies' | 'dev_dependencies' | 'dependency_overrides';
+
+/**
+ * Computes the edits that set `name: constraint` in a dependency section. Only
+ * the affected entry is touched, so comments, blank lines, key order and the
+ * quote style of the existing value survive. With `hostedUrl` the entry is
+ * written in the hosted form, with `hosted:` and `version:` keys.
+ */
+export function setDependencyEdits(
+  content: string,
+  section: DependencySection,
+  name: string,
+  constraint: string,
+  hostedUrl?: string
+): PubspecTextEdit[] {
+  return setEntryEdits(content, section, name, constraint, hostedUrl);
+}
+
+/**
+ * Computes the edits that set one key of the `environment:` section, e.g.
+ * `sdk: '>=3.2.0 <4.0.0'`, the same way dependency entries are set.
+ */
+export function setEnvironmentEdits(content: string, key: 'sdk' | 'flutter', constraint: string): PubspecTextEdit[] {
+  return setEntryEdits(content, 'environment', key, constraint);
+}
+
+function setEntryEdits(
+  content: string,
+  section: string,
+  name: string,
+  constraint: string,
+  hostedUrl?: string
+): PubspecTextEdit[] {
+  const root = parseRoot(content);
+  const newline = detectNewline(content);
+  const sectionPair = root ? findPair(root, section) : undefined;
+
+  if (!root || !sectionPair) {
+    // Append a new section at the end of the file
+    const separator = content.length === 0 || content.endsWith('\n') ? '' : newline;
+    return [{
+      offset: content.length,
+      length: 0,
+      newText: `${separator}${newline}${section}:${newline}  ${name}:${formatEntryValue(constraint, hostedUrl, 2, newline)}${newline}`
+    }];
+  }
+
+  const sectionValue = sectionPair.value;
+  if (!isMap(sectionValue)) {
+    // `dev_dependencies:` without entries
+    const keyEnd = lineEnd(content, rangeOf(sectionPair.key)[1]);
+    return [{ offset: keyEnd, length: 0, newText: `${newline}  ${name}:${formatEntryValue(constraint, hostedUrl, 2, newline)}` }];
+  }
+
+  if (sectionValue.flow) {
+    return replaceFlowSection(content, sectionPair, sectionValue, name, constraint, hostedUrl);
+  }
+
+  const entry = findPair(sectionValue, name);
+  if (entry) {
+    const indent = columnOf(content, rangeOf(entry.key)[0]);
+    return replaceEntryValue(content, entry, constraint, preferredQuote(sectionValue), hostedUrl, indent);
+  }
+
+  // Insert after the last entry, using the section's indentation
+  const items = sectionValue.items as Pair[];
+  const last = items[items.length - 1];
+  const indent = columnOf(content, rangeOf(items[0].key)[0]);
+  const insertAt = lineEnd(content, entryEnd(last));
+  return [{
+    offset: insertAt,
+    length: 0,
+    newText: `${newline}${' '.repeat(indent)}${name}:${formatEntryValue(constraint, hostedUrl, indent, newline, preferredQuote(sectionValue))}`
+  }];
+}
+
+/**
+ * Computes the edits that delete a dependency entry, including any nested
+ * lines (git, path, hosted), and nothing else.
+ */
+export function removeDependencyEdits(content: string, section: DependencySection, name: string): PubspecTextEdit[] {
+  const root = parseRoot(content);
+  const sectionValue = root ? findPair(root, section)?.value : undefined;
+  if (!isMap(sectionValue) || sectionValue.flow) {
+    return [];
+  }
+
+  const entry = findPair(sectionValue, name);
+  if (!entry) {
+    return [];
+  }
+
+  const start = lineStart(content, rangeOf(entry.key)[0]);
+  const newlineAt = content.indexOf('\n', trimmedEnd(content, entryEnd(entry)));
+  const end = newlineAt < 0 ? content.length : newlineAt + 1;
+  return [{ offset: start, length: end - start, newText: '' }];
+}
+
+export function hasDependency(content: string, section: DependencySection, name: string): boolean {
+  const root = parseRoot(content);
+  const sectionValue = root ? findPair(root, section)?.value : undefined;
+  return isMap(sectionValue) && Boolean(findPair(sectionValue, name));
+}
+
+export function applyEdits(content: string, edits: PubspecTextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.offset - a.offset)
+    .reduce((text, edit) => text.substring(0, edit.offset) + edit.newText + text.substring(edit.offset + edit.length), content);
+}
+
+function replaceEntryValue(
+  content: string,
+  entry: Pair,
+  constraint: string,
+  quote?: Scalar.Type,
+  hostedUrl?: string,
+  indent: number = 2
+): PubspecTextEdit[] {
+  const value = entry.value;
+
+  if (isScalar(value) && value.value !== null && !hostedUrl) {
+    const [start, end] = rangeOf(value);
+    const type = value.type === 'QUOTE_DOUBLE' || value.type === 'QUOTE_SINGLE' ? value.type : quote;
+    return [{ offset: start, length: end - start, newText: formatScalar(constraint, type) }];
+  }
+
+  // Hosted form: keep the map and only update `version:`
+  if (isMap(value) && (!hostedUrl || findPair(value, 'hosted'))) {
+    const version = findPair(value, 'version');
+    if (version && isScalar(version.value)) {
+      return replaceEntryValue(content, version, constraint, quote);
+    }
+  }
+
+  // `name:` (any), git or path forms become a plain version constraint, or
+  // the hosted form when a server is given
+  const colon = content.indexOf(':', rangeOf(entry.key)[1]);
+  const end = value ? trimmedEnd(content, rangeOf(value)[1]) : colon + 1;
+  return [{
+    offset: colon + 1,
+    length: Math.max(end - colon - 1, 0),
+    newText: formatEntryValue(constraint, hostedUrl, indent, detectNewline(content), quote)
+  }];
+}
+
+function replaceFlowSection(
+  content: string,
+  sectionPair: Pair,
+  sectionValue: YAMLMap,
+  name: string,
+  constraint: string,
+  hostedUrl?: string
+): PubspecTextEdit[] {
+  const [start, end] = rangeOf(sectionValue);
+  const entries = (sectionValue.items as Pair[])
+    .filter(item => String((item.key as Scalar)?.value) !== name)
+    .map(item => content.substring(rangeOf(item.key)[0], trimmedEnd(content, item.value ? rangeOf(item.value)[1] : rangeOf(item.key)[1])));
+  entries.push(hostedUrl
+    ? `${name}: {hosted: ${formatScalar(hostedUrl)}, version: ${formatScalar(constraint)}}`
+    : `${name}: ${formatScalar(constraint)}`);
+  return [{ offset: start, length: end - start, newText: `{${entries.join(', ')}}` }];
+}
+
+function parseRoot(content: string): YAMLMap | null {
+  const document = parseDocument(content);
+  return isMap(document.contents) ? document.contents : null;
+}
+
+function findPair(map: YAMLMap, key: string): Pair | undefined {
+  return (map.items as Pair[]).find(item => isScalar(item.key) && String(item.key.value) === key);
+}
+
+function rangeOf(node: unknown): [number, number, number] {
+  return ((node as { range?: [number, number, number] }).range) || [0, 0, 0];
+}
+
+function entryEnd(entry: Pair): number {
+  return entry.value ? rangeOf(entry.value)[1] : rangeOf(entry.key)[1];
+}
+
+function preferredQuote(section: YAMLMap): Scalar.Type | undefined {
+  for (const item of section.items as Pair[]) {
+    if (isScalar(item.value) && typeof item.value.value === 'string') {
+      return item.value.type === 'QUOTE_DOUBLE' || item.value.type === 'QUOTE_SINGLE' ? item.value.type : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Text that follows `name:` for a block entry: ` ^1.2.3`, or the nested
+ * hosted form indented below an entry at column `indent`.
+ */
+function formatEntryValue(
+  constraint: string,
+  hostedUrl: string | undefined,
+  indent: number,
+  newline: string,
+  quote?: Scalar.Type
+): string {
+  if (!hostedUrl) {
+    return ` ${formatScalar(constraint, quote)}`;
+  }
+  const childIndent = ' '.repeat(indent + 2);
+  return `${newline}${childIndent}hosted: ${formatScalar(hostedUrl)}${newline}${childIndent}version: ${formatScalar(constraint, quote)}`;
+}
+
+function formatScalar(value: string, quote?: Scalar.Type): string {
+  if (quote === 'QUOTE_DOUBLE') {
+    return JSON.stringify(value);
+  }
+  if (quote === 'QUOTE_SINGLE') {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  // Plain when YAML allows it, e.g. ^1.2.3; ranges like >=1.0.0 <2.0.0 need quotes
+  const plain = stringify(value).trim();
+  return plain === value ? value : `'${value.replace(/'/g, "''")}'`;
+}
+
+function trimmedEnd(content: string, offset: number): number {
+  let end = offset;
+  while (end > 0 && /\s/.test(content[end - 1])) {
+    end--;
+  }
+  return end;
+}
+
+function lineStart(content: string, offset: number): number {
+  return content.lastIndexOf('\n', offset - 1) + 1;
+}
+
+function lineEnd(content: string, offset: number): number {
+  const end = content.indexOf('\n', trimmedEnd(content, offset));
+  if (end < 0) {
+    return content.length;
+  }
+  return end > 0 && content[end - 1] === '\r' ? end - 1 : end;
+}
+
+function columnOf(content: string, offset: number): number {
+  return offset - lineStart(content, offset);
+}
+
+function detectNewline(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n';
+}
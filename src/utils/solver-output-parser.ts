@@ -0,0 +1,172 @@
+/**
+ * Parses the explanation pub prints when version solving fails, e.g.
+ *
+ *   Because every version of flutter_test from sdk depends on meta 1.8.0 and
+ *   app depends on meta ^1.9.0, flutter_test from sdk is forbidden.
+ *   So, because app depends on flutter_test from sdk, version solving failed.
+ *
+ * into the chain of incompatibilities that led to the failure.
+ */
+
+export interface SolverTerm {
+  packageName: string;
+  constraint?: string;
+  source?: string;
+  /** "every version of X" */
+  everyVersion?: boolean;
+}
+
+export type SolverFact =
+  | { kind: 'depends'; text: string; subject: SolverTerm; target: SolverTerm }
+  | { kind: 'requiresSdk'; text: string; subject: SolverTerm; sdk: string; constraint: string }
+  | { kind: 'noVersions'; text: string; target: SolverTerm }
+  | { kind: 'other'; text: string };
+
+export interface SolverStep {
+  /** Number pub assigns to derived facts it refers back to, like "(1)" */
+  label?: number;
+  premises: SolverFact[];
+  conclusion: string;
+}
+
+export interface SolverExplanation {
+  steps: SolverStep[];
+  /** Every fact from every step, in order of appearance */
+  facts: SolverFact[];
+  /** Packages mentioned anywhere in the chain */
+  packages: string[];
+  sdkMessage?: string;
+}
+
+const TERM_PATTERN = /^(every version of |no versions of )?([a-zA-Z_][a-zA-Z0-9_]*)(?: from (\w+))?(?: (.+))?$/;
+const CLAUSE_START = /^(every version of |no versions of |[a-zA-Z_][a-zA-Z0-9_]* (from \w+ )?(?:[<>=^\d]|any\b|depends\b|requires\b|is\b|doesn't\b|which\b))/;
+const BOTH_MARKER = '\u0000';
+
+export function isVersionSolvingFailure(output: string): boolean {
+  return /version solving failed/i.test(output);
+}
+
+export function parseSolverOutput(output: string): SolverExplanation {
+  const sdkMatch = output.match(/The current (?:Dart|Flutter) SDK version is [^\n]+/);
+  const steps = splitSentences(output)
+    .filter(sentence => /^(?:\(\d+\)\s*)?(?:So,\s*|And\s*|Thus,\s*)?because\b/i.test(sentence))
+    .map(parseStep)
+    .filter((step): step is SolverStep => step !== null);
+
+  const facts = steps.flatMap(step => step.premises);
+  const packages = new Set<string>();
+  for (const fact of facts) {
+    if (fact.kind === 'depends') {
+      packages.add(fact.subject.packageName);
+      packages.add(fact.target.packageName);
+    } else if (fact.kind === 'requiresSdk') {
+      packages.add(fact.subject.packageName);
+    } else if (fact.kind === 'noVersions') {
+      packages.add(fact.target.packageName);
+    }
+  }
+
+  return {
+    steps,
+    facts,
+    packages: Array.from(packages),
+    sdkMessage: sdkMatch ? sdkMatch[0].replace(/\.$/, '') : undefined
+  };
+}
+
+export function parseTerm(text: string): SolverTerm | null {
+  const match = text.trim().match(TERM_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return {
+    packageName: match[2],
+    source: match[3],
+    constraint: match[4]?.trim(),
+    everyVersion: match[1] === 'every version of ' || undefined
+  };
+}
+
+function splitSentences(output: string): string[] {
+  // Pub wraps long sentences across lines and numbers derived facts "(1) ..."
+  return output
+    .replace(/\r/g, '')
+    .split(/\n\s*\n|\.\s*\n|\.\s+(?=(?:\(\d+\)\s*)?(?:So,|And|Thus,|Because)\b)/)
+    .map(sentence => sentence.replace(/\s*\n\s*/g, ' ').trim().replace(/\.$/, ''))
+    .filter(sentence => sentence.length > 0);
+}
+
+function parseStep(sentence: string): SolverStep | null {
+  const labelMatch = sentence.match(/^\((\d+)\)\s*/);
+  const body = sentence
+    .substring(labelMatch ? labelMatch[0].length : 0)
+    .replace(/^(?:So,\s*|And\s*|Thus,\s*)?because\s+/i, '');
+
+  // The conclusion follows the last top-level comma: "Because A and B, C"
+  const commaIndex = body.lastIndexOf(', ');
+  if (commaIndex < 0) {
+    return null;
+  }
+
+  const premiseText = body.substring(0, commaIndex);
+  const conclusion = body.substring(commaIndex + 2).trim();
+  const premises = splitPremises(premiseText).flatMap(parseFact);
+
+  return {
+    label: labelMatch ? Number(labelMatch[1]) : undefined,
+    premises,
+    conclusion
+  };
+}
+
+function splitPremises(text: string): string[] {
+  // "depends on both a ^1.0.0 and b ^2.0.0" must stay one premise
+  const protectedText = text.replace(/\bboth (.+?) and /g, (_match, first: string) => `both ${first}${BOTH_MARKER}`);
+  const parts = protectedText.split(' and ');
+  const premises: string[] = [];
+
+  for (const part of parts) {
+    if (premises.length > 0 && !CLAUSE_START.test(part.trim())) {
+      premises[premises.length - 1] += ` and ${part}`;
+    } else {
+      premises.push(part);
+    }
+  }
+
+  return premises.map(premise => premise.replace(new RegExp(BOTH_MARKER, 'g'), ' and ').trim());
+}
+
+function parseFact(text: string): SolverFact[] {
+  const noVersions = text.match(/^no versions of (\S+) match (.+)$/);
+  if (noVersions) {
+    return [{ kind: 'noVersions', text, target: { packageName: noVersions[1], constraint: noVersions[2].trim() } }];
+  }
+
+  // "X depends on Y which depends on Z which requires SDK version ..." is a chain
+  const links = text.split(/ which /);
+  const facts: SolverFact[] = [];
+  let subject = parseTerm(links[0].replace(/ (depends on|requires) .*$/, ''));
+
+  for (let i = 0; i < links.length && subject; i++) {
+    const link = i === 0 ? links[0].substring(links[0].search(/ (depends on|requires) /) + 1) : links[i];
+
+    const sdk = link.match(/^requires (Flutter |Dart )?SDK version (.+)$/i);
+    if (sdk) {
+      facts.push({ kind: 'requiresSdk', text, subject, sdk: (sdk[1] || 'Dart ').trim(), constraint: sdk[2].trim() });
+      break;
+    }
+
+    const depends = link.match(/^(?:depends on|requires) (?:both )?(.+)$/);
+    if (!depends) {
+      break;
+    }
+
+    const targets = depends[1].split(' and ').map(parseTerm).filter((t): t is SolverTerm => t !== null);
+    for (const target of targets) {
+      facts.push({ kind: 'depends', text, subject, target });
+    }
+    subject = targets[targets.length - 1] || null;
+  }
+
+  return facts.length > 0 ? facts : [{ kind: 'other', text }];
+}